@@ -3,6 +3,8 @@ import type { NextConfig } from "next";
 const nextConfig: NextConfig = {
   /* config options here */
   images: { unoptimized: true },
+  // Native canvas and the OCR/PDF workers load files at runtime, so they stay unbundled
+  serverExternalPackages: ["pdfjs-dist", "@napi-rs/canvas", "tesseract.js"],
 };
 
 export default nextConfig;
@@ -1,6 +1,7 @@
 // File: app/api/gemini/route.ts
 import { NextRequest, NextResponse } from "next/server";
-import { fetchGeminiWithInlineData } from "@/lib/gemini"; 
+import { fetchGeminiWithInlineData } from "@/lib/gemini";
+import { parseReceiptExtraction, ReceiptExtraction } from "@/lib/receipts";
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
@@ -10,34 +11,31 @@ const DEFAULT_MIME_TYPE = "application/pdf";
 const EXTRACTION_PROMPT = `
 You are a precise financial extraction assistant.
 
-The attached PDF is a payslip, invoice, or receipt.
+The attached file is a receipt, invoice, or payslip.
 
-Return ONLY the final payable amount:
-Priority labels:
-1. Net Salary Payable / Net Salary / Net Pay
-2. Total Earnings / Total Earnings (A)
-3. Grand Total / Amount Paid / Total Amount / Total
+Return ONLY a JSON object of this shape (no markdown, no explanation):
+{
+  "merchant": string | null,        // Store, company or employer name as printed
+  "date": "YYYY-MM-DD" | null,      // Transaction, invoice or pay date
+  "currency": string | null,        // ISO 4217 code, e.g. "INR"
+  "subtotal": number | null,        // Before tax and tip
+  "tax": number | null,             // GST/CGST+SGST/IGST/VAT/sales tax, all components added together
+  "tip": number | null,
+  "total": number | null,           // Final payable amount
+  "lineItems": [{ "description": string, "quantity": number | null, "unitPrice": number | null, "amount": number }],
+  "paymentMethod": string | null    // e.g. "UPI", "Card", "Cash", "Net Banking"
+}
 
 Rules:
-- Output ONLY the number (no commas, no currency symbol, no words).
-- Keep decimals if present.
-- If nothing matches, output EXACTLY: NONE
+- Numbers are plain JSON numbers: no commas, no currency symbols.
+- "total" uses the first of these labels found:
+  1. Net Salary Payable / Net Salary / Net Pay
+  2. Total Earnings / Total Earnings (A)
+  3. Grand Total / Amount Paid / Total Amount / Total
+- "lineItems" lists purchased items only; leave out tax, discount, tip and total rows. Use [] when there are none.
+- Use null for anything not printed on the document.
 `.trim();
 
-// ---------- Helpers ----------
-function normalizeNumberString(str: string): string {
-  return str.replace(/(?<=\d),(?=\d)/g, "").trim();
-}
-
-function extractAmount(text: string): number | null {
-  const cleaned = normalizeNumberString(text);
-  if (/^\s*NONE\s*$/i.test(cleaned)) return null;
-
-  const match = cleaned.match(/\d+(?:\.\d+)?/);
-  const value = match ? parseFloat(match[0]) : NaN;
-  return isNaN(value) ? null : value;
-}
-
 // ---------- Main Route ----------
 export async function POST(req: NextRequest) {
   try {
@@ -51,19 +49,27 @@ export async function POST(req: NextRequest) {
       base64,
       mimeType: mimeType || DEFAULT_MIME_TYPE,
       prompt: EXTRACTION_PROMPT,
+      maxOutputTokens: 2048, // Long receipts list many items
     });
 
-    const amount = extractAmount(rawText);
+    let receipt: ReceiptExtraction;
+    try {
+      receipt = parseReceiptExtraction(rawText);
+    } catch {
+      return NextResponse.json({ error: "Could not read the extraction result.", rawText }, { status: 422 });
+    }
 
-    if (amount === null) {
+    if (receipt.total === null || receipt.total <= 0) {
       return NextResponse.json(
-        { error: "Could not extract a valid amount.", rawText },
+        { error: "Could not extract a valid amount.", receipt, rawText },
         { status: 422 }
       );
     }
 
+    // `amount` mirrors the total for callers that only need the number
     return NextResponse.json({
-      amount,
+      amount: receipt.total,
+      receipt,
       rawText,
       source: "gemini-inline-pdf",
     });
@@ -5,9 +5,20 @@ import path from "path";
 import { v4 as uuidv4 } from "uuid";
 import * as xlsx from "xlsx";
 import { fetchGeminiText } from "@/lib/gemini";
+import { hasScannedPages, ocrScannedPages, PdfOcrResult } from "@/lib/ocr";
+import { parsePdf, pdfPasswordStatus } from "@/lib/pdf-parser";
+import {
+  DateOrder,
+  detectStatementParser,
+  FILE_FORMAT_PARSERS,
+  reconcileStatement,
+  StatementRow,
+  withRunningBalances,
+} from "@/lib/statements";
+import { chunkStatementText, mapChunks } from "@/lib/statements/chunks";
 
 const MAX_FILE_SIZE = 5 * 1024 * 1024; // 5MB
-const SUPPORTED_EXTENSIONS = [".pdf", ".csv", ".xlsx", ".xls"];
+const SUPPORTED_EXTENSIONS = [".pdf", ".csv", ".xlsx", ".xls", ...Object.keys(FILE_FORMAT_PARSERS)];
 export const dynamic = "force-dynamic";
 
 // ---------- Interface ----------
@@ -17,6 +28,8 @@ interface ExtractedTransaction {
   amount: number;
   type: "Credit" | "Debit";
   classifiedAs: "Income" | "Expense";
+  balance?: number | null; // From bank statement templates, and formats stating an opening balance
+  externalId?: string; // OFX FITID, camt.053/MT940 bank reference
 }
 
 // ---------- Gemini Prompt ----------
@@ -37,19 +50,54 @@ TEXT:
 """${text}"""
 `.trim();
 
+// ---------- LLM Extraction ----------
+const isExtractedTransaction = (t: ExtractedTransaction): t is ExtractedTransaction =>
+  typeof t.date === "string" &&
+  typeof t.description === "string" &&
+  typeof t.amount === "number" &&
+  (t.type === "Credit" || t.type === "Debit") &&
+  (t.classifiedAs === "Income" || t.classifiedAs === "Expense");
+
+// A reply that isn't a JSON array fails the chunk rather than passing as "no transactions"
+async function extractChunk(chunk: string): Promise<ExtractedTransaction[]> {
+  const rawResponse = await fetchGeminiText(CLASSIFICATION_PROMPT(chunk));
+  const cleanJson = rawResponse.replace(/```json|```/g, "").trim();
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(cleanJson);
+  } catch {
+    throw new Error("Model reply was not valid JSON (possibly truncated)");
+  }
+  if (!Array.isArray(parsed)) throw new Error("Model reply was not a JSON array");
+  return parsed.filter(isExtractedTransaction);
+}
+
+const fromStatementRows = (rows: StatementRow[]): ExtractedTransaction[] =>
+  rows.map((row) => ({ ...row, classifiedAs: row.type === "Credit" ? "Income" : "Expense" }));
+
 // ---------- File Parsing ----------
-async function extractTextFromFile(file: File, buffer: Buffer): Promise<string> {
+async function extractTextFromFile(
+  file: File,
+  buffer: Buffer,
+  options: { sheetNames?: string[]; password?: string } = {}
+): Promise<string> {
   const fileName = file.name.toLowerCase();
+  const { sheetNames, password } = options;
 
   if (fileName.endsWith(".pdf")) {
-    const { parsePdf } = await import("@/lib/pdf-parser");
-    return await parsePdf(buffer);
+    return await parsePdf(buffer, password);
   }
 
   if (fileName.endsWith(".csv") || fileName.endsWith(".xlsx") || fileName.endsWith(".xls")) {
     const workbook = xlsx.read(buffer, { type: "buffer" });
-    const sheet = workbook.Sheets[workbook.SheetNames[0]];
-    return xlsx.utils.sheet_to_csv(sheet);
+    // Chosen sheets only, or every sheet; each is labeled so months split across sheets stay apart
+    const names = sheetNames?.length
+      ? workbook.SheetNames.filter((name) => sheetNames.includes(name))
+      : workbook.SheetNames;
+    return names
+      .map((name) => `# Sheet: ${name}\n${xlsx.utils.sheet_to_csv(workbook.Sheets[name])}`)
+      .join("\n\n");
   }
 
   throw new Error("Unsupported file type");
@@ -80,30 +128,91 @@ export async function POST(req: NextRequest) {
     const tempPath = path.join(tmpdir(), `${uuidv4()}-${file.name}`);
     await writeFile(tempPath, buffer);
 
-    const extractedText = await extractTextFromFile(file, buffer);
+    // Export formats carry exact amounts and IDs, so they are parsed directly
+    const formatParser = FILE_FORMAT_PARSERS[fileExt];
+    if (formatParser) {
+      const text = buffer.toString("utf8");
+      // QIF dates may be day- or month-first; the upload page can ask for the other order
+      const dateOrderField = formData.get("dateOrder");
+      const dateOrder: DateOrder | undefined =
+        dateOrderField === "day-first" || dateOrderField === "month-first" ? dateOrderField : undefined;
+      const rows = formatParser.detect(text) ? formatParser.parse(text, { dateOrder }) : [];
+      if (rows.length === 0) {
+        return NextResponse.json(
+          { error: `No transactions found in this ${formatParser.name} file` },
+          { status: 422 }
+        );
+      }
+      // camt.053 and MT940 state their balances, so the lines can be checked against them
+      const balances = formatParser.readBalances?.(text) ?? null;
+      const reconciliation = reconcileStatement(rows, balances);
+      const withBalances = balances?.opening != null ? withRunningBalances(rows, balances.opening) : rows;
+      const guess = formatParser.guessDateOrder?.(text);
+      return NextResponse.json({
+        transactions: fromStatementRows(withBalances),
+        parser: formatParser.name,
+        reconciliation,
+        dateOrder: guess ? { ...guess, order: dateOrder ?? guess.order } : null,
+      });
+    }
 
-    const rawResponse = await fetchGeminiText(CLASSIFICATION_PROMPT(extractedText));
-    const cleanJson = rawResponse.replace(/```json|```/g, "").trim();
+    const sheets = formData.get("sheets");
+    const sheetNames = typeof sheets === "string" ? (JSON.parse(sheets) as string[]) : undefined;
 
-    let transactions: ExtractedTransaction[] = [];
+    // The password only lives in this request's memory: it is never written or logged
+    const passwordField = formData.get("password");
+    const password = typeof passwordField === "string" && passwordField ? passwordField : undefined;
 
+    let extractedText: string;
     try {
-      const parsed = JSON.parse(cleanJson);
-      if (Array.isArray(parsed)) {
-        transactions = parsed.filter(
-          (t): t is ExtractedTransaction =>
-            typeof t.date === "string" &&
-            typeof t.description === "string" &&
-            typeof t.amount === "number" &&
-            (t.type === "Credit" || t.type === "Debit") &&
-            (t.classifiedAs === "Income" || t.classifiedAs === "Expense")
-        );
+      extractedText = await extractTextFromFile(file, buffer, { sheetNames, password });
+    } catch (err) {
+      const status = pdfPasswordStatus(err);
+      if (!status) throw err;
+      return NextResponse.json(
+        {
+          error: status === "incorrect" ? "Incorrect PDF password" : "PDF is password-protected",
+          passwordRequired: true,
+          incorrectPassword: status === "incorrect",
+        },
+        { status: 401 }
+      );
+    }
+
+    // Scanned pages have no text layer; OCR fills them in before anything reads the text.
+    // An OCR failure leaves the text layer as it is rather than failing the upload.
+    let ocrResult: PdfOcrResult | null = null;
+    if (fileExt === ".pdf" && hasScannedPages(extractedText)) {
+      try {
+        ocrResult = await ocrScannedPages(buffer, password);
+      } catch (err) {
+        console.error("OCR failed, using the PDF text layer:", err);
       }
-    } catch {
-      transactions = [];
+    }
+    if (ocrResult) extractedText = ocrResult.text;
+    const ocr = ocrResult && { provider: ocrResult.provider, pages: ocrResult.ocrPages };
+
+    // Known bank layouts are read deterministically; the LLM only sees unknown formats
+    const parser = fileExt === ".pdf" ? detectStatementParser(extractedText) : null;
+    const rows = parser?.parse(extractedText) ?? [];
+    if (parser && rows.length > 0) {
+      return NextResponse.json({ transactions: fromStatementRows(rows), parser: parser.name, ocr });
+    }
+
+    // Long statements go in pieces; a failed piece is reported, not silently dropped
+    const chunks = chunkStatementText(extractedText);
+    const { results, errors: chunkErrors } = await mapChunks(chunks, extractChunk);
+
+    if (chunks.length > 0 && chunkErrors.length === chunks.length) {
+      return NextResponse.json(
+        { error: "Transaction extraction failed", message: chunkErrors[0].message, chunkErrors },
+        { status: 502 }
+      );
     }
 
-    return NextResponse.json({ transactions });
+    // Chunks share no lines (only a header repeats), so identical rows are genuine repeats
+    const transactions = results.flat();
+    return NextResponse.json({ transactions, chunkErrors, chunkCount: chunks.length, ocr });
   } catch (err: unknown) {
     console.error("file-transaction error:", err);
     return NextResponse.json(
@@ -0,0 +1,43 @@
+// File: app/api/local-store/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { isLocalBackend } from "@/lib/storage";
+import { decode, encode } from "@/lib/storage/codec";
+import { getLocalFileStore } from "@/lib/storage/server";
+import type { DocumentStore } from "@/lib/storage";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+const OPERATIONS: (keyof DocumentStore)[] = ["list", "get", "add", "update", "remove", "batch"];
+
+// Backs the browser side of the local storage backend (see lib/storage/local-http.ts)
+export async function POST(req: NextRequest) {
+  if (!isLocalBackend) {
+    return NextResponse.json({ error: "Local storage backend is disabled." }, { status: 404 });
+  }
+
+  try {
+    const body = await req.json();
+    const op = body?.op as keyof DocumentStore;
+    const args = decode(body?.args);
+
+    if (!OPERATIONS.includes(op) || !Array.isArray(args)) {
+      return NextResponse.json({ error: "Invalid local store request." }, { status: 400 });
+    }
+
+    const store = await getLocalFileStore();
+    const method = store[op] as (...params: unknown[]) => Promise<unknown>;
+    const result = await method(...args);
+
+    return NextResponse.json({ result: encode(result ?? null) });
+  } catch (err: unknown) {
+    console.error("/api/local-store error:", err);
+    return NextResponse.json(
+      {
+        error: "Local store operation failed",
+        message: err instanceof Error ? err.message : "Unknown error",
+      },
+      { status: 500 }
+    );
+  }
+}
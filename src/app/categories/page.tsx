@@ -0,0 +1,287 @@
+"use client";
+
+import { useState } from "react";
+import { toast } from "sonner";
+import { GitMerge, Pencil, Plus, Trash2 } from "lucide-react";
+import DashboardLayout from "@/components/layouts/DashboardLayout";
+import CategoryEditor from "@/components/categories/CategoryEditor";
+import CategoryIcon from "@/components/categories/CategoryIcon";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Skeleton } from "@/components/ui/skeleton";
+import { useAuth } from "@/context/AuthContext";
+import { useCategories } from "@/context/CategoriesContext";
+import {
+  addCategory,
+  Category,
+  deleteCategory,
+  mergeCategories,
+  NewCategory,
+  sortCategoryTree,
+  updateCategory,
+} from "@/lib/categories";
+import { actorName } from "@/lib/history";
+import { TransactionKind } from "@/lib/transactions";
+
+const SECTIONS: { kind: TransactionKind; title: string; noun: string }[] = [
+  { kind: "expense", title: "Expense categories", noun: "category" },
+  { kind: "income", title: "Income sources", noun: "source" },
+];
+
+// Which dialog is open, and for which category
+type DialogState =
+  | { type: "edit"; kind: TransactionKind; category?: Category }
+  | { type: "merge"; category: Category }
+  | { type: "delete"; category: Category }
+  | null;
+
+export default function CategoriesPage() {
+  const { user } = useAuth();
+  const { categories, loading } = useCategories();
+  const [dialog, setDialog] = useState<DialogState>(null);
+  const [mergeTarget, setMergeTarget] = useState("");
+  const [busy, setBusy] = useState(false);
+
+  const close = () => setDialog(null);
+
+  // Runs a write, surfacing validation errors (duplicate names etc.) as toasts
+  const run = async (action: () => Promise<string | void>, success: string) => {
+    if (!user) return toast.error("Login required");
+
+    setBusy(true);
+    try {
+      await action();
+      toast.success(success);
+      close();
+    } catch (err) {
+      console.error("Category update failed:", err);
+      toast.error(err instanceof Error ? err.message : "Something went wrong");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleSave = (input: NewCategory) => {
+    if (!user || dialog?.type !== "edit") return;
+    const { category } = dialog;
+
+    run(
+      () =>
+        category
+          ? updateCategory(user.uid, category.id, input, { actorName: actorName(user) })
+          : addCategory(user.uid, input),
+      category ? `Saved "${input.name.trim()}"` : `Added "${input.name.trim()}"`
+    );
+  };
+
+  const handleMerge = () => {
+    if (!user || dialog?.type !== "merge" || !mergeTarget) return;
+    const { category } = dialog;
+    const target = categories.find((c) => c.id === mergeTarget);
+
+    run(async () => {
+      const moved = await mergeCategories(user.uid, category.id, mergeTarget, {
+        actorName: actorName(user),
+      });
+      toast.message(`${moved} transaction${moved === 1 ? "" : "s"} moved`);
+    }, `Merged "${category.name}" into "${target?.name}"`);
+  };
+
+  const handleDelete = () => {
+    if (!user || dialog?.type !== "delete") return;
+    const { category } = dialog;
+    run(() => deleteCategory(user.uid, category.id), `Deleted "${category.name}"`);
+  };
+
+  return (
+    <DashboardLayout>
+      <div className="space-y-6 text-black">
+        {/* Header */}
+        <header>
+          <h1 className="text-2xl font-bold">Categories</h1>
+          <p className="text-sm text-gray-600">
+            Organize expense categories and income sources. Renaming or merging updates existing
+            transactions.
+          </p>
+        </header>
+
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          {SECTIONS.map(({ kind, title, noun }) => {
+            const ofKind = categories.filter((c) => c.kind === kind);
+
+            return (
+              <Card key={kind} className="bg-white text-foreground shadow-sm border border-border">
+                <CardHeader className="pb-2 flex flex-row items-center justify-between">
+                  <CardTitle>{title}</CardTitle>
+                  <Button
+                    size="sm"
+                    className="bg-primary hover:bg-primary/90 text-white"
+                    onClick={() => setDialog({ type: "edit", kind })}
+                  >
+                    <Plus className="w-4 h-4 mr-1" /> New {noun}
+                  </Button>
+                </CardHeader>
+                <CardContent>
+                  {loading ? (
+                    <div className="space-y-3">
+                      {Array.from({ length: 4 }).map((_, i) => (
+                        <Skeleton key={i} className="h-9 w-full rounded-md bg-muted/50" />
+                      ))}
+                    </div>
+                  ) : ofKind.length > 0 ? (
+                    <ul className="space-y-2">
+                      {sortCategoryTree(ofKind).map(({ category, depth }) => (
+                        <li
+                          key={category.id}
+                          className="flex items-center justify-between bg-primary/5 px-3 py-2 rounded-lg"
+                          style={{ marginLeft: depth * 24 }}
+                        >
+                          <span className="flex items-center gap-2 text-sm font-medium">
+                            <span
+                              className="h-3 w-3 rounded-full"
+                              style={{ backgroundColor: category.color }}
+                            />
+                            <CategoryIcon icon={category.icon} color={category.color} />
+                            {category.name}
+                          </span>
+                          <span className="flex gap-1">
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              className="h-7 w-7 text-muted-foreground hover:text-primary"
+                              onClick={() => setDialog({ type: "edit", kind, category })}
+                              aria-label={`Edit ${category.name}`}
+                            >
+                              <Pencil size={14} />
+                            </Button>
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              className="h-7 w-7 text-muted-foreground hover:text-primary"
+                              onClick={() => {
+                                setMergeTarget("");
+                                setDialog({ type: "merge", category });
+                              }}
+                              aria-label={`Merge ${category.name}`}
+                            >
+                              <GitMerge size={14} />
+                            </Button>
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              className="h-7 w-7 text-muted-foreground hover:text-red-600"
+                              onClick={() => setDialog({ type: "delete", category })}
+                              aria-label={`Delete ${category.name}`}
+                            >
+                              <Trash2 size={14} />
+                            </Button>
+                          </span>
+                        </li>
+                      ))}
+                    </ul>
+                  ) : (
+                    <p className="text-sm text-muted-foreground text-center py-6">
+                      No {noun === "source" ? "income sources" : "categories"} yet
+                    </p>
+                  )}
+                </CardContent>
+              </Card>
+            );
+          })}
+        </div>
+      </div>
+
+      {dialog?.type === "edit" && (
+        <CategoryEditor
+          open
+          onOpenChange={(open) => !open && close()}
+          kind={dialog.kind}
+          category={dialog.category}
+          parents={categories.filter((c) => c.kind === dialog.kind && !c.parentId)}
+          onSubmit={handleSave}
+        />
+      )}
+
+      {/* Merge */}
+      <Dialog open={dialog?.type === "merge"} onOpenChange={(open) => !open && close()}>
+        <DialogContent className="bg-white text-black">
+          {dialog?.type === "merge" && (
+            <>
+              <DialogHeader>
+                <DialogTitle>Merge &quot;{dialog.category.name}&quot;</DialogTitle>
+                <DialogDescription>
+                  All its transactions and subcategories move to the selected one, then
+                  &quot;{dialog.category.name}&quot; is removed.
+                </DialogDescription>
+              </DialogHeader>
+              <select
+                value={mergeTarget}
+                onChange={(e) => setMergeTarget(e.target.value)}
+                className="w-full p-2 rounded-md bg-muted/50 text-foreground border border-input focus:border-primary"
+              >
+                <option value="">Merge into...</option>
+                {sortCategoryTree(
+                  categories.filter(
+                    (c) => c.kind === dialog.category.kind && c.id !== dialog.category.id
+                  )
+                ).map(({ category, depth }) => (
+                  <option key={category.id} value={category.id}>
+                    {depth > 0 ? `   ${category.name}` : category.name}
+                  </option>
+                ))}
+              </select>
+              <DialogFooter>
+                <Button variant="outline" onClick={close}>
+                  Cancel
+                </Button>
+                <Button
+                  onClick={handleMerge}
+                  disabled={!mergeTarget || busy}
+                  className="bg-primary hover:bg-primary/90 text-white"
+                >
+                  {busy ? "Merging..." : "Merge"}
+                </Button>
+              </DialogFooter>
+            </>
+          )}
+        </DialogContent>
+      </Dialog>
+
+      {/* Delete confirmation */}
+      <Dialog open={dialog?.type === "delete"} onOpenChange={(open) => !open && close()}>
+        <DialogContent className="bg-white text-black">
+          {dialog?.type === "delete" && (
+            <>
+              <DialogHeader>
+                <DialogTitle>Delete &quot;{dialog.category.name}&quot;?</DialogTitle>
+                <DialogDescription>
+                  Existing transactions keep this name. To move them elsewhere, merge instead.
+                </DialogDescription>
+              </DialogHeader>
+              <DialogFooter>
+                <Button variant="outline" onClick={close}>
+                  Cancel
+                </Button>
+                <Button
+                  onClick={handleDelete}
+                  disabled={busy}
+                  className="bg-red-600 hover:bg-red-700 text-white"
+                >
+                  Delete
+                </Button>
+              </DialogFooter>
+            </>
+          )}
+        </DialogContent>
+      </Dialog>
+    </DashboardLayout>
+  );
+}
@@ -1,6 +1,6 @@
 "use client";
 
-import { useState, useEffect } from "react";
+import { useState, useEffect, useMemo } from "react";
 import DashboardLayout from "@/components/layouts/DashboardLayout";
 import TotalBalanceCard from "@/components/dashboard/TotalBalanceCard";
 import IncomeExpenseChart from "@/components/dashboard/IncomeExpenseChart";
@@ -8,10 +8,9 @@ import InsightSummaryCard from "@/components/dashboard/InsightSummaryCard";
 import SpendingCategoryChart from "@/components/dashboard/SpendingCategoryChart";
 import LatestTransactionsTable from "@/components/dashboard/LatestTransactionsTable";
 import SavingsTrendChart from "@/components/dashboard/SavingsTrendChart";
-import { auth, db } from "@/lib/firebase";
-import { onAuthStateChanged } from "firebase/auth";
-import { collection, getDocs, query, where } from "firebase/firestore";
 import { useAuth } from "@/context/AuthContext";
+import { TransactionsProvider, useTransactionsVersion } from "@/context/TransactionsContext";
+import { fetchTransactions, monthRange, sumAmounts, yearRange } from "@/lib/transactions";
 import { Card, CardContent } from "@/components/ui/card";
 import {
   Select,
@@ -30,59 +29,48 @@ const MONTHS = [
 const generateYears = (start: number, end: number) =>
   Array.from({ length: end - start + 1 }, (_, i) => start + i);
 
+// Widest window any widget needs: the whole year plus the 6-month balance trend
+const BALANCE_TREND_MONTHS = 6;
+
 // ---------- Main Component ----------
 export default function DashboardPage() {
   const { user } = useAuth();
+  const version = useTransactionsVersion();
   const now = new Date();
   const currentYear = now.getFullYear();
   const [selectedMonth, setSelectedMonth] = useState<number>(now.getMonth());
   const [selectedYear, setSelectedYear] = useState<number>(currentYear);
-  const [userName, setUserName] = useState<string>("User");
   const [currentExpenses, setCurrentExpenses] = useState<number>(0);
 
   const years = generateYears(2020, currentYear + 5);
 
-  useEffect(() => {
-    const unsubscribe = onAuthStateChanged(auth, (user) => {
-      if (user) {
-        setUserName(user.displayName || "User");
-      }
-    });
-    return () => unsubscribe();
-  }, []);
+  const dashboardRange = useMemo(() => {
+    const year = yearRange(selectedYear);
+    const trend = monthRange(selectedYear, selectedMonth, BALANCE_TREND_MONTHS);
+    return { from: trend.from < year.from ? trend.from : year.from, to: year.to };
+  }, [selectedMonth, selectedYear]);
+
+  const userName = user?.displayName || "User";
 
-  // Fetch current month expenses
+  // Current month expenses (served from the dashboard window in the cache)
   useEffect(() => {
     const fetchExpenses = async () => {
       if (!user) return;
-      
+
       try {
-        const expenseQuery = query(
-          collection(db, "expenses"),
-          where("userId", "==", user.uid)
+        const expenses = await fetchTransactions(
+          user.uid,
+          "expense",
+          monthRange(selectedYear, selectedMonth)
         );
-        const expenseSnap = await getDocs(expenseQuery);
-        
-        let total = 0;
-        expenseSnap.forEach((doc) => {
-          const data = doc.data();
-          const dt = data.date?.seconds
-            ? new Date(data.date.seconds * 1000)
-            : new Date(data.date);
-
-          if (dt.getFullYear() === selectedYear && dt.getMonth() === selectedMonth) {
-            total += Number(data.amount || 0);
-          }
-        });
-        
-        setCurrentExpenses(total);
+        setCurrentExpenses(sumAmounts(expenses));
       } catch (err) {
         console.error("Error fetching expenses:", err);
       }
     };
-    
+
     fetchExpenses();
-  }, [user, selectedMonth, selectedYear]);
+  }, [user, selectedMonth, selectedYear, version]);
 
   return (
     <DashboardLayout>
@@ -151,56 +139,58 @@ export default function DashboardPage() {
         </div>
 
         {/* Dashboard Layout - Reorganized */}
-        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
-          {/* Right Column - Expenses Card with bigger font and scrollable content - Now First on Mobile */}
-          <div className="lg:col-span-1 flex flex-col gap-6 h-auto lg:h-[calc(100vh-200px)] lg:sticky lg:top-20 order-first">
-            <Card className="bg-white text-foreground shadow-sm hover:shadow transition-all duration-200 border border-border p-4 mb-4">
-              <CardContent>
-                <h2 className="text-lg font-semibold mb-4 flex items-center gap-2">
-                  <div className="bg-red-100 rounded-full p-2 flex items-center justify-center">
-                    <svg width="16" height="16" viewBox="0 0 24 24" fill="none" xmlns="http://www.w3.org/2000/svg">
-                      <path d="M21 12C21 16.9706 16.9706 21 12 21C7.02944 21 3 16.9706 3 12C3 7.02944 7.02944 3 12 3C16.9706 3 21 7.02944 21 12Z" stroke="#ef4444" strokeWidth="2"/>
-                      <path d="M15 12H9" stroke="#ef4444" strokeWidth="2" strokeLinecap="round"/>
-                    </svg>
-                  </div>
-                  <span>Expenses</span>
-                </h2>
-                <div className="text-4xl font-bold mb-2 text-red-600">₹{currentExpenses || 0}</div>
-                <p className="text-sm text-muted-foreground">This Month</p>
-              </CardContent>
-            </Card>
+        <TransactionsProvider range={dashboardRange}>
+          <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+            {/* Right Column - Expenses Card with bigger font and scrollable content - Now First on Mobile */}
+            <div className="lg:col-span-1 flex flex-col gap-6 h-auto lg:h-[calc(100vh-200px)] lg:sticky lg:top-20 order-first">
+              <Card className="bg-white text-foreground shadow-sm hover:shadow transition-all duration-200 border border-border p-4 mb-4">
+                <CardContent>
+                  <h2 className="text-lg font-semibold mb-4 flex items-center gap-2">
+                    <div className="bg-red-100 rounded-full p-2 flex items-center justify-center">
+                      <svg width="16" height="16" viewBox="0 0 24 24" fill="none" xmlns="http://www.w3.org/2000/svg">
+                        <path d="M21 12C21 16.9706 16.9706 21 12 21C7.02944 21 3 16.9706 3 12C3 7.02944 7.02944 3 12 3C16.9706 3 21 7.02944 21 12Z" stroke="#ef4444" strokeWidth="2"/>
+                        <path d="M15 12H9" stroke="#ef4444" strokeWidth="2" strokeLinecap="round"/>
+                      </svg>
+                    </div>
+                    <span>Expenses</span>
+                  </h2>
+                  <div className="text-4xl font-bold mb-2 text-red-600">₹{currentExpenses || 0}</div>
+                  <p className="text-sm text-muted-foreground">This Month</p>
+                </CardContent>
+              </Card>
             
-            <div className="overflow-y-auto flex-grow h-[400px] lg:h-auto">
-              <LatestTransactionsTable month={selectedMonth} year={selectedYear} />
+              <div className="overflow-y-auto flex-grow h-[400px] lg:h-auto">
+                <LatestTransactionsTable month={selectedMonth} year={selectedYear} />
+              </div>
             </div>
-          </div>
           
-          {/* Left Column */}
-          <div className="lg:col-span-2 flex flex-col gap-6 order-last lg:order-none">
-            {/* Top Row */}
-            <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-              <div className="md:col-span-1">
-                <TotalBalanceCard month={selectedMonth} year={selectedYear} />
-              </div>
-              <div className="md:col-span-1">
-                <InsightSummaryCard month={selectedMonth} year={selectedYear} />
+            {/* Left Column */}
+            <div className="lg:col-span-2 flex flex-col gap-6 order-last lg:order-none">
+              {/* Top Row */}
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                <div className="md:col-span-1">
+                  <TotalBalanceCard month={selectedMonth} year={selectedYear} />
+                </div>
+                <div className="md:col-span-1">
+                  <InsightSummaryCard month={selectedMonth} year={selectedYear} />
+                </div>
               </div>
-            </div>
             
-            {/* Middle Row */}
-            <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-              <div className="md:col-span-2">
-                <IncomeExpenseChart year={selectedYear} />
-              </div>
-              <div className="md:col-span-1 h-[400px]">
-                <SpendingCategoryChart month={selectedMonth} year={selectedYear} />
-              </div>
-              <div className="md:col-span-1 h-[400px]">
-                <SavingsTrendChart year={selectedYear} />
+              {/* Middle Row */}
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                <div className="md:col-span-2">
+                  <IncomeExpenseChart year={selectedYear} />
+                </div>
+                <div className="md:col-span-1 h-[400px]">
+                  <SpendingCategoryChart month={selectedMonth} year={selectedYear} />
+                </div>
+                <div className="md:col-span-1 h-[400px]">
+                  <SavingsTrendChart year={selectedYear} />
+                </div>
               </div>
             </div>
           </div>
-        </div>
+        </TransactionsProvider>
       </div>
     </DashboardLayout>
   );
@@ -0,0 +1,151 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { toast } from "sonner";
+import { Undo2 } from "lucide-react";
+import DashboardLayout from "@/components/layouts/DashboardLayout";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Skeleton } from "@/components/ui/skeleton";
+import { useAuth } from "@/context/AuthContext";
+import { actorName } from "@/lib/history";
+import { fetchImportBatches, ImportBatch, rollbackImportBatch } from "@/lib/imports";
+
+const formatDate = (date: Date | null) => date?.toLocaleDateString("en-IN") ?? "—";
+
+export default function ImportsPage() {
+  const { user } = useAuth();
+  const [batches, setBatches] = useState<ImportBatch[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [confirming, setConfirming] = useState<ImportBatch | null>(null);
+  const [rollingBack, setRollingBack] = useState(false);
+
+  const loadBatches = useCallback(async () => {
+    if (!user) return;
+    try {
+      setBatches(await fetchImportBatches(user.uid));
+    } catch (err) {
+      console.error("Failed to fetch import batches:", err);
+      toast.error("Failed to load import history");
+    } finally {
+      setLoading(false);
+    }
+  }, [user]);
+
+  useEffect(() => {
+    loadBatches();
+  }, [loadBatches]);
+
+  const handleRollback = async () => {
+    if (!user || !confirming) return;
+
+    setRollingBack(true);
+    try {
+      const count = await rollbackImportBatch(user.uid, confirming.id, {
+        source: "import",
+        actorName: actorName(user),
+      });
+      toast.success(`Moved ${count} transaction${count === 1 ? "" : "s"} to trash`);
+      setConfirming(null);
+      await loadBatches();
+    } catch (err) {
+      console.error("Rollback error:", err);
+      toast.error("Failed to roll back import");
+    } finally {
+      setRollingBack(false);
+    }
+  };
+
+  return (
+    <DashboardLayout>
+      <div className="space-y-6 text-black">
+        {/* Header */}
+        <header>
+          <h1 className="text-2xl font-bold">Import history</h1>
+          <p className="text-sm text-gray-600">
+            Every statement upload is recorded here. Rolling one back moves all of its
+            transactions to the trash in one step.
+          </p>
+        </header>
+
+        <Card className="bg-white text-foreground shadow-sm border border-border">
+          <CardContent className="p-4">
+            {loading ? (
+              <div className="space-y-4">
+                {Array.from({ length: 4 }).map((_, i) => (
+                  <Skeleton key={i} className="h-10 w-full rounded-md bg-muted/50" />
+                ))}
+              </div>
+            ) : batches.length > 0 ? (
+              <ul className="space-y-3">
+                {batches.map((b) => (
+                  <li
+                    key={b.id}
+                    className={`flex flex-col md:flex-row md:items-center justify-between gap-2 px-4 py-3 rounded-lg ${
+                      b.status === "active" ? "bg-primary/5" : "bg-muted/40 opacity-60"
+                    }`}
+                  >
+                    <div className="min-w-0">
+                      <p className="text-sm font-medium flex items-center gap-2">
+                        <span className="truncate">{b.fileName}</span>
+                        {b.account && <Badge variant="outline">{b.account}</Badge>}
+                        {b.status === "rolledBack" && <Badge variant="outline">Rolled back</Badge>}
+                      </p>
+                      <p className="text-xs text-muted-foreground">
+                        {b.rowCount} transaction{b.rowCount === 1 ? "" : "s"} · {formatDate(b.from)} –{" "}
+                        {formatDate(b.to)} · imported {b.importedAt.toLocaleString("en-IN")}
+                        {b.rolledBackAt && ` · rolled back ${formatDate(b.rolledBackAt)}`}
+                      </p>
+                    </div>
+                    {b.status === "active" && (
+                      <Button size="sm" variant="outline" onClick={() => setConfirming(b)}>
+                        <Undo2 className="w-4 h-4 mr-1" /> Roll back
+                      </Button>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            ) : (
+              <p className="text-sm text-muted-foreground text-center py-8">
+                No statements imported yet
+              </p>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      <Dialog open={confirming !== null} onOpenChange={(open) => !open && setConfirming(null)}>
+        <DialogContent className="bg-white text-black">
+          <DialogHeader>
+            <DialogTitle>Roll back this import?</DialogTitle>
+            <DialogDescription>
+              All {confirming?.rowCount} transactions from &quot;{confirming?.fileName}&quot; will be
+              moved to the trash, where they can still be restored individually.
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setConfirming(null)}>
+              Cancel
+            </Button>
+            <Button
+              className="bg-red-600 hover:bg-red-700 text-white"
+              onClick={handleRollback}
+              disabled={rollingBack}
+            >
+              {rollingBack ? "Rolling back..." : "Roll back"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </DashboardLayout>
+  );
+}
@@ -0,0 +1,228 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { toast } from "sonner";
+import { Pencil, Trash2 } from "lucide-react";
+import DashboardLayout from "@/components/layouts/DashboardLayout";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Skeleton } from "@/components/ui/skeleton";
+import { useAuth } from "@/context/AuthContext";
+import {
+  deleteMerchantAlias,
+  fetchMerchantAliases,
+  MerchantAlias,
+  MerchantTotal,
+  setMerchantAlias,
+  topMerchants,
+} from "@/lib/merchants";
+import { fetchTransactions, Transaction } from "@/lib/transactions";
+
+const TOP_MERCHANTS = 25;
+
+export default function MerchantsPage() {
+  const { user } = useAuth();
+  const [expenses, setExpenses] = useState<Transaction[]>([]);
+  const [aliases, setAliases] = useState<MerchantAlias[]>([]);
+  const [loading, setLoading] = useState(true);
+  // Merchant whose alias is being edited
+  const [editing, setEditing] = useState<string | null>(null);
+  const [alias, setAlias] = useState("");
+
+  const loadData = useCallback(async () => {
+    if (!user) return;
+    try {
+      const [list, merchantAliases] = await Promise.all([
+        fetchTransactions(user.uid, "expense"),
+        fetchMerchantAliases(user.uid),
+      ]);
+      setExpenses(list);
+      setAliases(merchantAliases);
+    } catch (err) {
+      console.error("Failed to fetch merchants:", err);
+      toast.error("Failed to load merchants");
+    } finally {
+      setLoading(false);
+    }
+  }, [user]);
+
+  useEffect(() => {
+    loadData();
+  }, [loadData]);
+
+  const ranked: MerchantTotal[] = topMerchants(aliases, expenses, TOP_MERCHANTS);
+
+  const openAlias = (merchant: string) => {
+    setEditing(merchant);
+    setAlias(merchant);
+  };
+
+  // Runs a write then reloads, surfacing validation errors as toasts
+  const run = async (action: () => Promise<void>, success: string) => {
+    if (!user) return toast.error("Login required");
+    try {
+      await action();
+      toast.success(success);
+      setEditing(null);
+      await loadData();
+    } catch (err) {
+      console.error("Merchant alias update failed:", err);
+      toast.error(err instanceof Error ? err.message : "Something went wrong");
+    }
+  };
+
+  const handleSaveAlias = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!user || !editing) return;
+    const merchant = editing;
+    run(() => setMerchantAlias(user.uid, merchant, alias), `"${merchant}" now shows as "${alias.trim()}"`);
+  };
+
+  const handleDeleteAlias = (a: MerchantAlias) => {
+    if (!user) return;
+    run(() => deleteMerchantAlias(user.uid, a.id), `Removed alias for "${a.merchant}"`);
+  };
+
+  return (
+    <DashboardLayout>
+      <div className="space-y-6 text-black">
+        {/* Header */}
+        <header>
+          <h1 className="text-2xl font-bold">Merchants</h1>
+          <p className="text-sm text-gray-600">
+            Merchant names are read from UPI, NEFT, IMPS and card descriptions in your statements.
+            Alias a merchant to group its variants under one name.
+          </p>
+        </header>
+
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          {/* Top merchants */}
+          <Card className="lg:col-span-2 bg-white text-foreground shadow-sm border border-border">
+            <CardHeader>
+              <CardTitle className="text-lg">Top merchants by spend</CardTitle>
+            </CardHeader>
+            <CardContent>
+              {loading ? (
+                <div className="space-y-3">
+                  {Array.from({ length: 5 }).map((_, i) => (
+                    <Skeleton key={i} className="h-10 w-full rounded-md bg-muted/50" />
+                  ))}
+                </div>
+              ) : ranked.length > 0 ? (
+                <ol className="space-y-2">
+                  {ranked.map((m, index) => (
+                    <li
+                      key={m.merchant}
+                      className="flex items-center justify-between gap-2 px-4 py-2 rounded-lg bg-primary/5"
+                    >
+                      <div className="min-w-0">
+                        <p className="text-sm font-medium truncate">
+                          <span className="text-muted-foreground mr-2">{index + 1}.</span>
+                          {m.merchant}
+                        </p>
+                        <p className="text-xs text-muted-foreground">
+                          {m.count} transaction{m.count === 1 ? "" : "s"}
+                        </p>
+                      </div>
+                      <div className="flex items-center gap-2 shrink-0">
+                        <span className="text-sm font-semibold">₹{m.total.toFixed(2)}</span>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="h-7 w-7 text-muted-foreground hover:text-primary"
+                          onClick={() => openAlias(m.merchant)}
+                          aria-label={`Alias ${m.merchant}`}
+                        >
+                          <Pencil size={14} />
+                        </Button>
+                      </div>
+                    </li>
+                  ))}
+                </ol>
+              ) : (
+                <p className="text-sm text-muted-foreground text-center py-8">
+                  No merchants yet. Import a bank statement to see where your money goes.
+                </p>
+              )}
+            </CardContent>
+          </Card>
+
+          {/* Aliases */}
+          <Card className="bg-white text-foreground shadow-sm border border-border">
+            <CardHeader>
+              <CardTitle className="text-lg">Aliases</CardTitle>
+            </CardHeader>
+            <CardContent>
+              {aliases.length > 0 ? (
+                <ul className="space-y-2">
+                  {aliases.map((a) => (
+                    <li key={a.id} className="flex items-center justify-between gap-2 text-sm">
+                      <span className="min-w-0 truncate">
+                        {a.merchant} <span className="text-muted-foreground">→</span> {a.alias}
+                      </span>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-7 w-7 text-muted-foreground hover:text-red-600"
+                        onClick={() => handleDeleteAlias(a)}
+                        aria-label={`Remove alias for ${a.merchant}`}
+                      >
+                        <Trash2 size={14} />
+                      </Button>
+                    </li>
+                  ))}
+                </ul>
+              ) : (
+                <p className="text-sm text-muted-foreground">No aliases yet.</p>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+
+      <Dialog open={editing !== null} onOpenChange={(open) => !open && setEditing(null)}>
+        <DialogContent className="bg-white text-black">
+          <DialogHeader>
+            <DialogTitle>Alias merchant</DialogTitle>
+            <DialogDescription>
+              Show &quot;{editing}&quot; as another name. Pick an existing merchant to merge them.
+            </DialogDescription>
+          </DialogHeader>
+          <form onSubmit={handleSaveAlias} className="space-y-4">
+            <Input
+              aria-label="Alias"
+              list="merchant-names"
+              value={alias}
+              onChange={(e) => setAlias(e.target.value)}
+              className="bg-muted/50 text-foreground border focus:border-primary"
+            />
+            <datalist id="merchant-names">
+              {ranked
+                .filter((m) => m.merchant !== editing)
+                .map((m) => (
+                  <option key={m.merchant} value={m.merchant} />
+                ))}
+            </datalist>
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => setEditing(null)}>
+                Cancel
+              </Button>
+              <Button type="submit" className="bg-primary hover:bg-primary/90 text-white">
+                Save alias
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </DashboardLayout>
+  );
+}
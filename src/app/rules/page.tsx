@@ -0,0 +1,218 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { toast } from "sonner";
+import { ArrowDown, ArrowUp, Pencil, Plus, Trash2 } from "lucide-react";
+import DashboardLayout from "@/components/layouts/DashboardLayout";
+import RuleEditor from "@/components/rules/RuleEditor";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Skeleton } from "@/components/ui/skeleton";
+import { useAuth } from "@/context/AuthContext";
+import {
+  addRule,
+  deleteRule,
+  fetchRules,
+  NewRule,
+  reorderRules,
+  Rule,
+  updateRule,
+} from "@/lib/rules";
+
+// Plain-language summary of a rule's conditions and actions
+function describeRule(rule: Rule): string {
+  const parts = [
+    `${rule.field} ${rule.operator === "regex" ? "matches" : "contains"} "${rule.pattern}"`,
+  ];
+  if (rule.direction !== "any") parts.push(rule.direction);
+  if (rule.minAmount !== null) parts.push(`≥ ₹${rule.minAmount}`);
+  if (rule.maxAmount !== null) parts.push(`≤ ₹${rule.maxAmount}`);
+
+  const actions = [];
+  if (rule.category) actions.push(`category ${rule.category}`);
+  if (rule.rename) actions.push(`rename to "${rule.rename}"`);
+  if (rule.tags.length) actions.push(`tag ${rule.tags.join(", ")}`);
+
+  return `${parts.join(", ")} → ${actions.join(", ")}`;
+}
+
+export default function RulesPage() {
+  const { user } = useAuth();
+  const [rules, setRules] = useState<Rule[]>([]);
+  const [loading, setLoading] = useState(true);
+  // `undefined` = closed, `null` = creating, otherwise the rule being edited
+  const [editing, setEditing] = useState<Rule | null | undefined>(undefined);
+
+  const loadRules = useCallback(async () => {
+    if (!user) return;
+    try {
+      setRules(await fetchRules(user.uid));
+    } catch (err) {
+      console.error("Failed to fetch rules:", err);
+      toast.error("Failed to load rules");
+    } finally {
+      setLoading(false);
+    }
+  }, [user]);
+
+  useEffect(() => {
+    loadRules();
+  }, [loadRules]);
+
+  // Runs a write then reloads, surfacing validation errors as toasts
+  const run = async (action: () => Promise<unknown>, success?: string) => {
+    if (!user) return toast.error("Login required");
+    try {
+      await action();
+      if (success) toast.success(success);
+      await loadRules();
+      return true;
+    } catch (err) {
+      console.error("Rule update failed:", err);
+      toast.error(err instanceof Error ? err.message : "Something went wrong");
+      return false;
+    }
+  };
+
+  const handleSave = async (input: NewRule) => {
+    if (!user) return;
+    const rule = editing;
+    const saved = await run(
+      () => (rule ? updateRule(user.uid, rule.id, input) : addRule(user.uid, input)),
+      rule ? "Rule updated" : "Rule added"
+    );
+    if (saved) setEditing(undefined);
+  };
+
+  const handleToggle = (rule: Rule) => {
+    if (!user) return;
+    run(() => updateRule(user.uid, rule.id, { ...rule, enabled: !rule.enabled }));
+  };
+
+  const handleMove = (index: number, offset: -1 | 1) => {
+    if (!user) return;
+    const ids = rules.map((r) => r.id);
+    [ids[index], ids[index + offset]] = [ids[index + offset], ids[index]];
+    run(() => reorderRules(user.uid, ids));
+  };
+
+  const handleDelete = (rule: Rule) => {
+    if (!user) return;
+    run(() => deleteRule(user.uid, rule.id), `Deleted "${rule.name}"`);
+  };
+
+  const nextPriority = (rules.at(-1)?.priority ?? 0) + 10;
+
+  return (
+    <DashboardLayout>
+      <div className="space-y-6 text-black">
+        {/* Header */}
+        <header className="flex flex-col md:flex-row md:items-center justify-between gap-4">
+          <div>
+            <h1 className="text-2xl font-bold">Categorization rules</h1>
+            <p className="text-sm text-gray-600">
+              Rules run top to bottom on manual entries, receipt extraction and statement imports.
+              The first rule that sets a category wins; tags from every matching rule are added.
+            </p>
+          </div>
+          <Button
+            className="bg-primary hover:bg-primary/90 text-white"
+            onClick={() => setEditing(null)}
+          >
+            <Plus className="w-4 h-4 mr-1" /> New rule
+          </Button>
+        </header>
+
+        <Card className="bg-white text-foreground shadow-sm border border-border">
+          <CardContent className="p-4">
+            {loading ? (
+              <div className="space-y-3">
+                {Array.from({ length: 5 }).map((_, i) => (
+                  <Skeleton key={i} className="h-12 w-full rounded-md bg-muted/50" />
+                ))}
+              </div>
+            ) : rules.length > 0 ? (
+              <ol className="space-y-2">
+                {rules.map((rule, index) => (
+                  <li
+                    key={rule.id}
+                    className={`flex flex-col md:flex-row md:items-center justify-between gap-2 px-4 py-3 rounded-lg ${
+                      rule.enabled ? "bg-primary/5" : "bg-muted/40 opacity-60"
+                    }`}
+                  >
+                    <div className="min-w-0">
+                      <p className="text-sm font-medium flex items-center gap-2">
+                        <span className="text-muted-foreground">{index + 1}.</span>
+                        {rule.name}
+                        {!rule.enabled && <Badge variant="outline">Disabled</Badge>}
+                      </p>
+                      <p className="text-xs text-muted-foreground truncate">{describeRule(rule)}</p>
+                    </div>
+                    <div className="flex items-center gap-1 shrink-0">
+                      <Button variant="outline" size="sm" onClick={() => handleToggle(rule)}>
+                        {rule.enabled ? "Disable" : "Enable"}
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-7 w-7"
+                        disabled={index === 0}
+                        onClick={() => handleMove(index, -1)}
+                        aria-label="Move up"
+                      >
+                        <ArrowUp size={14} />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-7 w-7"
+                        disabled={index === rules.length - 1}
+                        onClick={() => handleMove(index, 1)}
+                        aria-label="Move down"
+                      >
+                        <ArrowDown size={14} />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-7 w-7 text-muted-foreground hover:text-primary"
+                        onClick={() => setEditing(rule)}
+                        aria-label={`Edit ${rule.name}`}
+                      >
+                        <Pencil size={14} />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-7 w-7 text-muted-foreground hover:text-red-600"
+                        onClick={() => handleDelete(rule)}
+                        aria-label={`Delete ${rule.name}`}
+                      >
+                        <Trash2 size={14} />
+                      </Button>
+                    </div>
+                  </li>
+                ))}
+              </ol>
+            ) : (
+              <p className="text-sm text-muted-foreground text-center py-8">
+                No rules yet. Add one to categorize transactions automatically.
+              </p>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      {editing !== undefined && (
+        <RuleEditor
+          open
+          onOpenChange={(open) => !open && setEditing(undefined)}
+          rule={editing ?? undefined}
+          nextPriority={nextPriority}
+          onSubmit={handleSave}
+        />
+      )}
+    </DashboardLayout>
+  );
+}
@@ -1,21 +1,98 @@
 "use client";
 
+import { useEffect, useState } from "react";
+import { toast } from "sonner";
+import { CalendarClock, Database } from "lucide-react";
 import DashboardLayout from "@/components/layouts/DashboardLayout";
-import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { useAuth } from "@/context/AuthContext";
+import { DateMigrationResult, migrateTransactionDates } from "@/lib/migrations";
+import { fetchUserSettings } from "@/lib/settings";
+
+export default function SettingsPage() {
+  const { user } = useAuth();
+  const [migrating, setMigrating] = useState(false);
+  const [result, setResult] = useState<DateMigrationResult | null>(null);
+  const [datesMigrated, setDatesMigrated] = useState(false);
+
+  useEffect(() => {
+    if (!user) return;
+    fetchUserSettings(user.uid)
+      .then((settings) => setDatesMigrated(Boolean(settings.datesMigrated)))
+      .catch((err) => console.error("Failed to fetch user settings:", err));
+  }, [user]);
+
+  // ---------- Date Migration ----------
+  const handleMigrateDates = async () => {
+    if (!user) return toast.error("Login required");
+
+    setMigrating(true);
+    try {
+      const outcome = await migrateTransactionDates(user.uid);
+      setResult(outcome);
+      setDatesMigrated(outcome.invalid.length === 0);
+      toast.success(`Normalized ${outcome.updated} of ${outcome.scanned} transactions`);
+    } catch (err) {
+      console.error("Date migration failed:", err);
+      toast.error("Failed to normalize transaction dates");
+    } finally {
+      setMigrating(false);
+    }
+  };
 
-export default function UploadTransactionsPage() {
   return (
     <DashboardLayout>
-      <div className="max-w-4xl mx-auto p-10 text-center">
-        <Card className="bg-[#0c9588] shadow-lg hover:shadow-xl transition-all duration-300">
-          <CardContent className="p-8">
-            <h1 className="text-3xl font-bold text-white mb-4">🚧 Upload Transactions</h1>
-            <p className="text-white text-lg">
-              This feature is <span className="text-yellow-400 font-semibold">Work in Progress</span>.
-            </p>
-            <p className="text-sm text-teal-200 mt-2">
-              Soon you&apos;ll be able to upload your PDF/Excel/CSV bank statements and automatically extract &amp; classify all your transactions using AI.
-            </p>
+      <div className="space-y-6 text-black">
+        {/* Header */}
+        <header>
+          <h1 className="text-2xl font-bold">Settings</h1>
+          <p className="text-sm text-gray-600">Maintain your data and preferences.</p>
+        </header>
+
+        <Card className="bg-white text-foreground shadow-sm border border-border">
+          <CardHeader className="pb-2">
+            <CardTitle className="flex items-center gap-3">
+              <div className="bg-primary/10 rounded-full p-2 flex items-center justify-center">
+                <Database size={18} className="text-primary" />
+              </div>
+              <span>Data maintenance</span>
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="flex flex-col md:flex-row md:items-center justify-between gap-4">
+              <div>
+                <p className="font-medium flex items-center gap-2">
+                  <CalendarClock size={16} className="text-primary" /> Normalize transaction dates
+                </p>
+                <p className="text-sm text-muted-foreground">
+                  Older entries may store dates as text. This rewrites them so monthly
+                  totals and date-range statistics include every transaction.
+                </p>
+                {datesMigrated && (
+                  <p className="text-sm text-green-700">All transaction dates are already normalized.</p>
+                )}
+              </div>
+              <Button
+                onClick={handleMigrateDates}
+                disabled={migrating}
+                className="bg-primary hover:bg-primary/90 text-white"
+              >
+                {migrating ? "Normalizing..." : "Normalize dates"}
+              </Button>
+            </div>
+
+            {result && (
+              <div className="text-sm bg-muted/50 rounded-md p-3 space-y-1">
+                <p>Scanned: {result.scanned}</p>
+                <p>Updated: {result.updated}</p>
+                {result.invalid.length > 0 && (
+                  <p className="text-red-600">
+                    Unreadable dates (left unchanged): {result.invalid.join(", ")}
+                  </p>
+                )}
+              </div>
+            )}
           </CardContent>
         </Card>
       </div>
@@ -2,13 +2,16 @@
 
 import { useState, useEffect } from "react";
 import { useAuth } from "@/context/AuthContext";
+import { useCategories } from "@/context/CategoriesContext";
 import DashboardLayout from "@/components/layouts/DashboardLayout";
+import CategoryIcon from "@/components/categories/CategoryIcon";
 import { DateRangePicker } from "@/components/ui/date-range-picker";
 import { Card, CardContent, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { DateRange } from "react-day-picker";
 import { Download, Sparkles, Brain } from "lucide-react";
 import * as XLSX from "xlsx";
+import { categoryColor, findCategory } from "@/lib/categories";
 
 interface StatsData {
   totalIncome: number;
@@ -19,6 +22,7 @@ interface StatsData {
 
 export default function StatisticsPage() {
   const { user } = useAuth();
+  const { categories } = useCategories("expense");
 
   const [stats, setStats] = useState<StatsData | null>(null);
   const [aiInsight, setAIInsight] = useState("");
@@ -239,14 +243,27 @@ export default function StatisticsPage() {
         {/* Category Breakdown */}
         {stats?.categoryTotals && Object.keys(stats.categoryTotals).length > 0 && (
           <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-6">
-            {Object.entries(stats.categoryTotals).map(([category, value], idx) => (
-              <Card key={idx} className="bg-teal-800 text-white shadow-lg hover:shadow-xl transition-all duration-300">
-                <CardContent className="p-4">
-                  <h4 className="text-sm text-muted-foreground text-teal-200">{category}</h4>
-                  <p className="text-lg font-semibold text-white">₹{Number(value)}</p>
-                </CardContent>
-              </Card>
-            ))}
+            {Object.entries(stats.categoryTotals).map(([category, value], idx) => {
+              const stored = findCategory(categories, "expense", category);
+              const parent = categories.find((c) => c.id === stored?.parentId);
+              const color = categoryColor(categories, "expense", category);
+
+              return (
+                <Card
+                  key={idx}
+                  className="bg-teal-800 text-white shadow-lg hover:shadow-xl transition-all duration-300 border-l-4"
+                  style={{ borderLeftColor: color }}
+                >
+                  <CardContent className="p-4">
+                    <h4 className="text-sm text-muted-foreground text-teal-200 flex items-center gap-2">
+                      <CategoryIcon icon={stored?.icon ?? "tag"} color={color} size={14} />
+                      {parent ? `${parent.name} › ${category}` : category}
+                    </h4>
+                    <p className="text-lg font-semibold text-white">₹{Number(value)}</p>
+                  </CardContent>
+                </Card>
+              );
+            })}
           </div>
         )}
 
@@ -0,0 +1,154 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { toast } from "sonner";
+import { RotateCcw, Trash2 } from "lucide-react";
+import DashboardLayout from "@/components/layouts/DashboardLayout";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Skeleton } from "@/components/ui/skeleton";
+import { useAuth } from "@/context/AuthContext";
+import { actorName } from "@/lib/history";
+import {
+  purgeExpiredTransactions,
+  purgeTransaction,
+  queryTrashedTransactions,
+  restoreTransaction,
+  Transaction,
+  TRASH_RETENTION_DAYS,
+} from "@/lib/transactions";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const daysLeft = (deletedAt: Date) =>
+  Math.max(0, Math.ceil((deletedAt.getTime() + TRASH_RETENTION_DAYS * DAY_MS - Date.now()) / DAY_MS));
+
+export default function TrashPage() {
+  const { user } = useAuth();
+  const [items, setItems] = useState<Transaction[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    if (!user) return;
+
+    const fetchTrash = async () => {
+      setLoading(true);
+      try {
+        // Expired entries are cleaned up whenever the trash is opened
+        await purgeExpiredTransactions(user.uid);
+
+        const [incomes, expenses] = await Promise.all([
+          queryTrashedTransactions(user.uid, "income"),
+          queryTrashedTransactions(user.uid, "expense"),
+        ]);
+        setItems(
+          [...incomes, ...expenses].sort(
+            (a, b) => b.deletedAt!.getTime() - a.deletedAt!.getTime()
+          )
+        );
+      } catch (err) {
+        console.error("Failed to load trash:", err);
+        toast.error("Failed to load trash");
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchTrash();
+  }, [user]);
+
+  const removeFromList = (id: string) => setItems((list) => list.filter((t) => t.id !== id));
+
+  const handleRestore = async (t: Transaction) => {
+    if (!user) return;
+    removeFromList(t.id);
+    try {
+      await restoreTransaction(user.uid, t.kind, t.id, { actorName: actorName(user) });
+      toast.success(`${t.kind === "income" ? "Income" : "Expense"} restored`);
+    } catch (err) {
+      console.error("Restore error:", err);
+      setItems((list) => [t, ...list]);
+      toast.error("Failed to restore transaction");
+    }
+  };
+
+  const handlePurge = async (t: Transaction) => {
+    if (!user) return;
+    removeFromList(t.id);
+    try {
+      await purgeTransaction(user.uid, t.kind, t.id);
+      toast.success("Deleted permanently");
+    } catch (err) {
+      console.error("Purge error:", err);
+      setItems((list) => [t, ...list]);
+      toast.error("Failed to delete transaction");
+    }
+  };
+
+  return (
+    <DashboardLayout>
+      <div className="space-y-6 text-black">
+        {/* Header */}
+        <header>
+          <h1 className="text-2xl font-bold">Trash</h1>
+          <p className="text-sm text-gray-600">
+            Deleted transactions are kept for {TRASH_RETENTION_DAYS} days and are excluded from
+            all totals until restored.
+          </p>
+        </header>
+
+        <Card className="bg-white text-foreground shadow-sm border border-border">
+          <CardContent className="p-4">
+            {loading ? (
+              <div className="space-y-4">
+                {Array.from({ length: 4 }).map((_, i) => (
+                  <Skeleton key={i} className="h-10 w-full rounded-md bg-muted/50" />
+                ))}
+              </div>
+            ) : items.length > 0 ? (
+              <ul className="space-y-3">
+                {items.map((t) => (
+                  <li
+                    key={t.id}
+                    className="flex flex-col md:flex-row md:items-center justify-between gap-2 bg-primary/5 px-4 py-3 rounded-lg"
+                  >
+                    <div>
+                      <p className="text-sm font-medium flex items-center gap-2">
+                        {t.title || t.category}
+                        <Badge
+                          variant="outline"
+                          className={t.kind === "income" ? "bg-green-50 text-green-600 border-green-200" : "bg-red-50 text-red-600 border-red-200"}
+                        >
+                          {t.kind === "income" ? "Income" : "Expense"}
+                        </Badge>
+                      </p>
+                      <p className="text-xs text-muted-foreground">
+                        ₹{t.amount.toFixed(2)} · {t.date.toLocaleDateString("en-IN")} · deleted{" "}
+                        {t.deletedAt!.toLocaleDateString("en-IN")} · {daysLeft(t.deletedAt!)} days left
+                      </p>
+                    </div>
+                    <div className="flex gap-2">
+                      <Button size="sm" variant="outline" onClick={() => handleRestore(t)}>
+                        <RotateCcw className="w-4 h-4 mr-1" /> Restore
+                      </Button>
+                      <Button
+                        size="sm"
+                        className="bg-red-600 hover:bg-red-700 text-white"
+                        onClick={() => handlePurge(t)}
+                      >
+                        <Trash2 className="w-4 h-4 mr-1" /> Delete forever
+                      </Button>
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            ) : (
+              <p className="text-sm text-muted-foreground text-center py-8">Trash is empty</p>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </DashboardLayout>
+  );
+}
@@ -1,49 +1,363 @@
 "use client";
 
-import { useState } from "react";
+import { useEffect, useMemo, useState } from "react";
+import Link from "next/link";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
 import DashboardLayout from "@/components/layouts/DashboardLayout";
-import { db } from "@/lib/firebase";
+import ColumnMappingWizard from "@/components/upload/ColumnMappingWizard";
+import ImportPreviewTable from "@/components/upload/ImportPreviewTable";
+import PdfPasswordPrompt, { PasswordHintInput } from "@/components/upload/PdfPasswordPrompt";
+import SheetPicker from "@/components/upload/SheetPicker";
 import { useAuth } from "@/context/AuthContext";
-import { collection, addDoc, serverTimestamp } from "firebase/firestore";
-
-interface ExtractedTransaction {
-  date: string;
-  description: string;
-  amount: number;
-  type: "CR" | "DR";
-  classifiedAs: "Income" | "Expense";
+import { useCategories } from "@/context/CategoriesContext";
+import { ensureCategory, findCategory } from "@/lib/categories";
+import { findDuplicates, FingerprintInput } from "@/lib/duplicates";
+import { actorName, ChangeContext } from "@/lib/history";
+import {
+  buildImportRows,
+  chunkRows,
+  createImportBatch,
+  discardImportBatch,
+  duplicateCandidate,
+  ExtractedTransaction,
+  findImportBatchByHash,
+  hashFile,
+  ImportBatch,
+  ImportRow,
+  parseInputDate,
+  saveImportChunk,
+  validateImportRow,
+} from "@/lib/imports";
+import {
+  applyMappingToSheets,
+  ColumnMapping,
+  detectTransactionSheets,
+  fetchBankMappings,
+  guessMapping,
+  matchBankMapping,
+  readWorkbook,
+  saveBankMapping,
+  WorkbookSheet,
+} from "@/lib/mappings";
+import { fetchMerchantAliases, MerchantAlias } from "@/lib/merchants";
+import { fetchUserSettings, savePasswordHint } from "@/lib/settings";
+import type { DateOrder, DateOrderGuess, Reconciliation } from "@/lib/statements";
+import type { ChunkError } from "@/lib/statements/chunks";
+import { fetchTransactions } from "@/lib/transactions";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Each chunk is retried with a growing pause before it counts as failed
+const MAX_CHUNK_ATTEMPTS = 3;
+const RETRY_DELAY_MS = 1000;
+
+const wait = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+// Tabular statements are parsed by column mapping; everything else goes to the AI
+const isSpreadsheet = (file: File) => /\.(csv|xlsx?)$/i.test(file.name);
+
+const DATE_ORDER_LABELS: Record<DateOrder, string> = {
+  "day-first": "day/month/year",
+  "month-first": "month/day/year",
+};
+
+interface ImportSummary {
+  saved: number;
+  skipped: number;
+  failed: number;
+}
+
+// The chosen sheets of a spreadsheet upload and the column mapping they were (or will be) read with
+interface SheetUpload {
+  sheets: WorkbookSheet[]; // The first one is shown in the mapping wizard
+  mapping: ColumnMapping;
+  bankName: string; // Saved mapping used, if any
+  skippedSheets: string[]; // Chosen sheets without the mapped header
+}
+
+// Batch left open by a save with failed chunks, so a retry adds to it
+interface PendingBatch {
+  id: string;
+  saved: number;
+  skipped: number;
 }
 
 export default function UploadTransactionsPage() {
   const { user } = useAuth();
+  const { categories } = useCategories();
   const [file, setFile] = useState<File | null>(null);
-  const [transactions, setTransactions] = useState<ExtractedTransaction[]>([]);
+  const [rows, setRows] = useState<ImportRow[]>([]);
   const [loading, setLoading] = useState(false);
   const [saving, setSaving] = useState(false);
+  const [aliases, setAliases] = useState<MerchantAlias[]>([]);
+  const [account, setAccount] = useState("");
+  const [checking, setChecking] = useState(false);
+  const [fileHash, setFileHash] = useState("");
+  // Earlier live import of the very same file
+  const [previousImport, setPreviousImport] = useState<ImportBatch | null>(null);
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+  const [summary, setSummary] = useState<ImportSummary | null>(null);
+  const [pendingBatch, setPendingBatch] = useState<PendingBatch | null>(null);
+  // Sheets of a multi-sheet workbook while the user picks which to import
+  const [workbook, setWorkbook] = useState<WorkbookSheet[] | null>(null);
+  const [sheet, setSheet] = useState<SheetUpload | null>(null);
+  const [mappingOpen, setMappingOpen] = useState(false);
+  // Bank statement template the server read a PDF with; null when the AI did
+  const [parserName, setParserName] = useState<string | null>(null);
+  // Parts of a long statement the AI failed to read, out of how many it was split into
+  const [chunkReport, setChunkReport] = useState<{ errors: ChunkError[]; count: number } | null>(null);
+  // Set while an encrypted PDF waits for its password
+  const [passwordPrompt, setPasswordPrompt] = useState<{ incorrect: boolean } | null>(null);
+  const [passwordHints, setPasswordHints] = useState<Record<string, string>>({});
+  // Scanned pages of the last PDF that were read with OCR
+  const [ocrReport, setOcrReport] = useState<{ provider: string; pages: number[] } | null>(null);
+  // Opening/closing balances check for camt.053 and MT940 files
+  const [reconciliation, setReconciliation] = useState<Reconciliation | null>(null);
+  // Day/month order a QIF file's dates were read in
+  const [dateOrder, setDateOrder] = useState<DateOrderGuess | null>(null);
 
-  const handleUpload = async () => {
-    if (!file) return alert("Please select a file.");
+  useEffect(() => {
+    if (!user) return;
+    fetchMerchantAliases(user.uid)
+      .then(setAliases)
+      .catch((err) => console.error("Failed to fetch merchant aliases:", err));
+    fetchUserSettings(user.uid)
+      .then((settings) => setPasswordHints(settings.passwordHints ?? {}))
+      .catch((err) => console.error("Failed to fetch user settings:", err));
+  }, [user]);
+
+  // What the duplicate check looks at, serialized so it changes only when an edit touches that
+  const candidateKey = useMemo(
+    () => JSON.stringify(rows.map((row) => duplicateCandidate(row, account))),
+    [rows, account]
+  );
+
+  useEffect(() => {
+    const parsed = JSON.parse(candidateKey) as (Omit<FingerprintInput, "date"> & { date: string | null })[];
+    if (!user || parsed.length === 0) return;
 
+    const checkDuplicates = async () => {
+      const candidates = parsed.map((c) => ({ ...c, date: new Date(c.date ?? NaN) }));
+      const times = candidates.map((c) => c.date.getTime()).filter((t) => !isNaN(t));
+      if (times.length === 0) return;
+      const range = {
+        from: new Date(Math.min(...times) - DAY_MS),
+        to: new Date(Math.max(...times) + DAY_MS),
+      };
+
+      setChecking(true);
+      try {
+        const [incomes, expenses] = await Promise.all([
+          fetchTransactions(user.uid, "income", range),
+          fetchTransactions(user.uid, "expense", range),
+        ]);
+        const flags = findDuplicates(candidates, [...incomes, ...expenses]);
+        // Newly flagged rows default to skipped; the user's own choices otherwise stand
+        setRows((prev) =>
+          prev.map((row, i) => ({
+            ...row,
+            duplicate: flags[i],
+            selected: flags[i] && !row.duplicate ? false : row.selected,
+          }))
+        );
+      } catch (err) {
+        console.error("Duplicate check failed:", err);
+      } finally {
+        setChecking(false);
+      }
+    };
+
+    checkDuplicates();
+  }, [user, candidateKey]);
+
+  const showExtracted = async (uid: string, extracted: ExtractedTransaction[]) => {
+    setSummary(null);
+    setPendingBatch(null);
+    setRows(await buildImportRows(uid, extracted, aliases));
+  };
+
+  // Resolves with whether any rows were shown
+  const extractWithAi = async (file: File, sheetNames?: string[], password?: string, order?: DateOrder) => {
     const formData = new FormData();
     formData.append("receipt", file);
+    if (sheetNames) formData.append("sheets", JSON.stringify(sheetNames));
+    if (password) formData.append("password", password);
+    if (order) formData.append("dateOrder", order);
+
+    const res = await fetch("/api/file-transaction", {
+      method: "POST",
+      body: formData,
+    });
+
+    const data = await res.json();
+
+    if (data.passwordRequired) {
+      setRows([]);
+      setPasswordPrompt({ incorrect: Boolean(data.incorrectPassword) });
+      return false;
+    }
+    setPasswordPrompt(null);
+
+    if (Array.isArray(data.transactions) && user) {
+      setParserName(typeof data.parser === "string" ? data.parser : null);
+      setChunkReport(data.chunkErrors?.length ? { errors: data.chunkErrors, count: data.chunkCount } : null);
+      setOcrReport(data.ocr ?? null);
+      setReconciliation(data.reconciliation ?? null);
+      setDateOrder(data.dateOrder ?? null);
+      await showExtracted(user.uid, data.transactions as ExtractedTransaction[]);
+      return true;
+    }
+    alert(data.message ? `${data.error}: ${data.message}` : data.error || "Failed to extract transactions.");
+    return false;
+  };
+
+  // A saved mapping for this bank's header imports right away; otherwise the wizard asks
+  const readSheets = async (uid: string, chosen: WorkbookSheet[]) => {
+    const primary = chosen[0];
+    const match = matchBankMapping(await fetchBankMappings(uid), primary.rows);
+    const { transactions, skippedSheets } = match
+      ? applyMappingToSheets(chosen, match.mapping, primary.rows[match.mapping.headerRow])
+      : { transactions: [], skippedSheets: [] };
+
+    setWorkbook(null);
+    setSheet({
+      sheets: chosen,
+      mapping: match?.mapping ?? guessMapping(primary.rows),
+      bankName: match?.bank.bankName ?? "",
+      skippedSheets,
+    });
+    if (transactions.length > 0) {
+      await showExtracted(uid, transactions);
+    } else {
+      setRows([]);
+      setMappingOpen(true);
+    }
+  };
+
+  const readSpreadsheet = async (uid: string, file: File) => {
+    const sheets = readWorkbook(await file.arrayBuffer());
+    if (sheets.length === 0) return alert("This file has no data.");
+
+    // Several sheets: let the user confirm which ones hold transactions
+    if (sheets.length > 1) setWorkbook(sheets);
+    else await readSheets(uid, sheets);
+  };
+
+  const handleUpload = async () => {
+    if (!file) return alert("Please select a file.");
+
     setLoading(true);
+    setWorkbook(null);
+    setSheet(null);
+    setMappingOpen(false);
+    setChunkReport(null);
+    setOcrReport(null);
+    setReconciliation(null);
+    setDateOrder(null);
+    setPasswordPrompt(null);
 
     try {
-      const res = await fetch("/api/file-transaction", {
-        method: "POST",
-        body: formData,
-      });
+      const hash = await hashFile(file);
+      setFileHash(hash);
+      setPreviousImport(user ? await findImportBatchByHash(user.uid, hash) : null);
 
-      const data = await res.json();
+      if (user && isSpreadsheet(file)) await readSpreadsheet(user.uid, file);
+      else await extractWithAi(file);
+    } catch (err) {
+      console.error("Upload error:", err);
+      alert("Something went wrong while extracting transactions.");
+    } finally {
+      setLoading(false);
+    }
+  };
 
-      if (Array.isArray(data.transactions)) {
-        setTransactions(data.transactions as ExtractedTransaction[]);
-      } else {
-        alert(data.error || "Failed to extract transactions.");
+  const handleUnlock = async (password: string, hint: PasswordHintInput | null) => {
+    if (!file) return;
+
+    setLoading(true);
+    try {
+      const unlocked = await extractWithAi(file, undefined, password);
+      if (unlocked && hint && user) {
+        await savePasswordHint(user.uid, hint.bankName, hint.hint);
+        setPasswordHints((prev) => ({ ...prev, [hint.bankName.trim()]: hint.hint.trim() }));
+      }
+    } catch (err) {
+      console.error("Unlock error:", err);
+      alert("Something went wrong while opening the statement.");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Re-reads the file with day and month swapped, for dates the file itself doesn't settle
+  const handleSwitchDateOrder = async () => {
+    if (!file || !dateOrder) return;
+
+    setLoading(true);
+    try {
+      await extractWithAi(file, undefined, undefined, dateOrder.order === "day-first" ? "month-first" : "day-first");
+    } catch (err) {
+      console.error("Date order switch error:", err);
+      alert("Something went wrong while re-reading the statement.");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleConfirmSheets = async (names: string[]) => {
+    if (!user || !workbook) return;
+
+    setLoading(true);
+    try {
+      await readSheets(user.uid, workbook.filter((s) => names.includes(s.name)));
+    } catch (err) {
+      console.error("Sheet read error:", err);
+      alert("Something went wrong while reading the statement.");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleApplyMapping = async (mapping: ColumnMapping, bankName: string, remember: boolean) => {
+    if (!user || !sheet) return;
+
+    const header = sheet.sheets[0].rows[mapping.headerRow] ?? [];
+    const { transactions, skippedSheets } = applyMappingToSheets(sheet.sheets, mapping, header);
+
+    setMappingOpen(false);
+    setSheet({ ...sheet, mapping, bankName: remember ? bankName : "", skippedSheets });
+    setLoading(true);
+
+    try {
+      if (remember) {
+        try {
+          await saveBankMapping(user.uid, bankName, mapping, header);
+        } catch (err) {
+          console.error("Failed to save bank mapping:", err);
+          alert("Couldn't remember this mapping, but the statement will still be imported.");
+        }
       }
+      await showExtracted(user.uid, transactions);
+    } catch (err) {
+      console.error("Mapping error:", err);
+      alert("Something went wrong while reading the statement.");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleUseAi = async () => {
+    if (!file) return;
+
+    const sheetNames = sheet?.sheets.map((s) => s.name);
+    setMappingOpen(false);
+    setSheet(null);
+    setLoading(true);
+
+    try {
+      await extractWithAi(file, sheetNames);
     } catch (err) {
       console.error("Upload error:", err);
       alert("Something went wrong while extracting transactions.");
@@ -52,59 +366,107 @@ export default function UploadTransactionsPage() {
     }
   };
 
-  const guessExpenseCategory = (desc: string = "") => {
-    const lower = desc.toLowerCase();
-    if (lower.includes("zomato") || lower.includes("swiggy")) return "Food";
-    if (lower.includes("amazon") || lower.includes("flipkart")) return "Shopping";
-    if (lower.includes("atm") || lower.includes("withdrawal")) return "Cash";
-    if (lower.includes("rent")) return "Housing";
-    if (lower.includes("electricity") || lower.includes("bill")) return "Utilities";
-    return "Misc";
-  };
+  const errors = useMemo(() => rows.map(validateImportRow), [rows]);
+  const selected = rows.filter((r) => r.selected);
+  const invalidCount = rows.filter((r, i) => r.selected && Object.keys(errors[i]).length > 0).length;
+  const duplicateCount = rows.filter((r) => r.duplicate).length;
+
+  // Writes rows chunk by chunk into `batch`; resolves with the rows that never made it
+  const saveInChunks = async (
+    uid: string,
+    batch: PendingBatch,
+    toSave: ImportRow[],
+    context: ChangeContext
+  ) => {
+    const failed: ImportRow[] = [];
+    let saved = batch.saved;
+    let done = 0;
+    setProgress({ done, total: toSave.length });
+
+    for (const chunk of chunkRows(toSave)) {
+      let ok = false;
+      for (let attempt = 1; attempt <= MAX_CHUNK_ATTEMPTS && !ok; attempt++) {
+        try {
+          await saveImportChunk(uid, batch.id, chunk, account, saved, context);
+          ok = true;
+        } catch (err) {
+          console.error(`Import chunk failed (attempt ${attempt}):`, err);
+          if (attempt < MAX_CHUNK_ATTEMPTS) await wait(RETRY_DELAY_MS * attempt);
+        }
+      }
 
-  const isValidDate = (input: unknown): boolean => {
-    const parsed = new Date(input as string);
-    return parsed instanceof Date && !isNaN(parsed.valueOf());
+      if (ok) saved += chunk.length;
+      else failed.push(...chunk);
+      done += chunk.length;
+      setProgress({ done, total: toSave.length });
+    }
+
+    return { saved, failed };
   };
 
   const handleSaveToFirebase = async () => {
-    if (!user || transactions.length === 0) return;
+    if (!user || selected.length === 0 || invalidCount > 0) return;
     setSaving(true);
+    setSummary(null);
 
     try {
-      for (const tx of transactions) {
-        const doc = {
-          amount: Math.abs(tx.amount),
-          category:
-            tx.classifiedAs === "Income"
-              ? "Salary"
-              : guessExpenseCategory(tx.description),
-          date: isValidDate(tx.date) ? new Date(tx.date) : new Date(),
-          createdAt: serverTimestamp(),
-          userId: user.uid,
-        };
-
-        const collectionName =
-          tx.classifiedAs.toLowerCase() === "income" ? "incomes" : "expenses";
-
-        await addDoc(collection(db, collectionName), doc);
+      // Names typed into the grid become categories for next time
+      const newCategories = new Map(
+        selected
+          .filter((row) => !findCategory(categories, row.kind, row.category))
+          .map((row) => [`${row.kind}:${row.category.trim().toLowerCase()}`, row])
+      );
+      for (const row of newCategories.values()) {
+        await ensureCategory(user.uid, row.kind, row.category);
+      }
+
+      let batch = pendingBatch;
+      if (!batch) {
+        const dates = selected.map((row) => parseInputDate(row.date)!.getTime());
+        const id = await createImportBatch(user.uid, {
+          fileName: file?.name ?? "statement",
+          fileHash,
+          account,
+          from: new Date(Math.min(...dates)),
+          to: new Date(Math.max(...dates)),
+        });
+        batch = { id, saved: 0, skipped: rows.length - selected.length };
       }
 
-      alert("Transactions saved successfully.");
-      setTransactions([]);
-      setFile(null);
+      const { saved, failed } = await saveInChunks(user.uid, batch, selected, {
+        actorName: actorName(user),
+      });
+      setSummary({ saved, skipped: batch.skipped, failed: failed.length });
+
+      if (failed.length === 0) {
+        setRows([]);
+        setFile(null);
+        setPreviousImport(null);
+        setPendingBatch(null);
+      } else if (saved === 0) {
+        // Nothing made it: drop the empty batch, and a retry starts a new one
+        setRows(failed);
+        setPendingBatch(null);
+        await discardImportBatch(batch.id).catch((err) => console.error("Failed to discard import batch:", err));
+      } else {
+        // Only the failed rows stay in the grid, ready to retry into the same batch
+        setRows(failed);
+        setPendingBatch({ ...batch, saved });
+      }
     } catch (err) {
       console.error("Save error:", err);
       alert("Failed to save transactions.");
     } finally {
+      setProgress(null);
       setSaving(false);
     }
   };
 
-  const totalAmount = (type: "Income" | "Expense") =>
-    transactions
-      .filter((tx) => tx.classifiedAs === type)
-      .reduce((sum, tx) => sum + Math.abs(tx.amount), 0)
+  // Totals cover only the rows that will be saved
+  const totalAmount = (kind: ImportRow["kind"]) =>
+    selected
+      .filter((row) => row.kind === kind)
+      .reduce((sum, row) => sum + (Number(row.amount) || 0), 0)
       .toFixed(2);
 
   return (
@@ -114,7 +476,9 @@ export default function UploadTransactionsPage() {
         <header>
           <h1 className="text-2xl font-bold">Upload Bank Statement</h1>
           <p className="text-sm text-gray-600">
-            Upload a PDF, Excel, or CSV file and extract transactions using AI
+            Upload a PDF, Excel, CSV, OFX/QFX, QIF, camt.053 or MT940 file. PDFs from HDFC, SBI, ICICI, Axis and
+            Kotak are read by bank templates, scanned pages with OCR, and other layouts with AI; spreadsheets are
+            mapped column by column and remembered per bank.
           </p>
         </header>
 
@@ -124,11 +488,24 @@ export default function UploadTransactionsPage() {
               <div className="w-full">
                 <Input
                   type="file"
-                  accept=".pdf,.xlsx,.xls,.csv"
-                  onChange={(e) => setFile(e.target.files?.[0] || null)}
+                  accept=".pdf,.xlsx,.xls,.csv,.ofx,.qfx,.qif,.xml,.sta,.mt940,.940"
+                  onChange={(e) => {
+                    setFile(e.target.files?.[0] || null);
+                    setWorkbook(null);
+                    setSheet(null);
+                    setMappingOpen(false);
+                    setPasswordPrompt(null);
+                  }}
                   className="w-full file:text-white file:bg-primary file:border-none"
                 />
               </div>
+              <Input
+                aria-label="Account"
+                value={account}
+                onChange={(e) => setAccount(e.target.value)}
+                placeholder="Account (e.g. HDFC Savings)"
+                className="w-full md:w-64"
+              />
               <Button
                 onClick={handleUpload}
                 disabled={!file || loading}
@@ -138,81 +515,204 @@ export default function UploadTransactionsPage() {
               </Button>
             </div>
 
-            {transactions.length > 0 ? (
+            {progress && (
+              <div className="mb-6 space-y-1">
+                <div className="h-2 w-full rounded-full bg-gray-200 overflow-hidden">
+                  <div
+                    className="h-full bg-green-600 transition-all"
+                    style={{ width: `${(progress.done / Math.max(progress.total, 1)) * 100}%` }}
+                  />
+                </div>
+                <p className="text-xs text-gray-600">
+                  Processed {progress.done} of {progress.total} rows...
+                </p>
+              </div>
+            )}
+
+            {summary && (
+              <div
+                className={`mb-6 rounded-md px-4 py-3 text-sm ${
+                  summary.failed > 0 ? "bg-red-50 text-red-800" : "bg-green-50 text-green-800"
+                }`}
+              >
+                <p className="font-medium">
+                  Saved {summary.saved} · Skipped {summary.skipped} · Failed {summary.failed}
+                </p>
+                {summary.failed > 0 ? (
+                  <p className="text-xs">
+                    The failed rows are still listed below. Nothing from a failed chunk was saved,
+                    so retrying won&apos;t create duplicates.
+                  </p>
+                ) : (
+                  <p className="text-xs">
+                    <Link href="/imports" className="underline">
+                      View import history
+                    </Link>
+                  </p>
+                )}
+              </div>
+            )}
+
+            {passwordPrompt ? (
+              <PdfPasswordPrompt
+                key={fileHash}
+                incorrect={passwordPrompt.incorrect}
+                hints={passwordHints}
+                unlocking={loading}
+                onSubmit={handleUnlock}
+              />
+            ) : workbook ? (
+              <SheetPicker
+                key={fileHash}
+                sheets={workbook}
+                initialSelected={detectTransactionSheets(workbook)}
+                onConfirm={handleConfirmSheets}
+              />
+            ) : sheet && mappingOpen ? (
+              <div className="space-y-2">
+                {sheet.sheets.length > 1 && (
+                  <p className="text-xs text-gray-600">
+                    Mapping sheet &quot;{sheet.sheets[0].name}&quot;; the same mapping reads the other{" "}
+                    {sheet.sheets.length - 1} chosen sheet{sheet.sheets.length === 2 ? "" : "s"}.
+                  </p>
+                )}
+                <ColumnMappingWizard
+                  key={fileHash}
+                  rows={sheet.sheets[0].rows}
+                  initial={sheet.mapping}
+                  initialBankName={sheet.bankName}
+                  onApply={handleApplyMapping}
+                  onUseAi={handleUseAi}
+                />
+              </div>
+            ) : rows.length > 0 ? (
               <div className="mt-6">
                 <div className="flex justify-between items-center mb-4">
-                  <h3 className="text-lg font-semibold">
-                    Extracted Transactions
-                  </h3>
+                  <div>
+                    <h3 className="text-lg font-semibold">
+                      Extracted Transactions
+                    </h3>
+                    {!sheet && !pendingBatch && (
+                      <p className="text-xs text-gray-600">
+                        {parserName
+                          ? `Read with the ${parserName} statement template.`
+                          : "Read with AI extraction."}
+                      </p>
+                    )}
+                    {ocrReport && !sheet && !pendingBatch && (
+                      <p className="text-xs text-gray-600">
+                        Page{ocrReport.pages.length === 1 ? "" : "s"} {ocrReport.pages.join(", ")} had no
+                        text layer and {ocrReport.pages.length === 1 ? "was" : "were"} read with OCR (
+                        {ocrReport.provider}); check amounts carefully.
+                      </p>
+                    )}
+                    {reconciliation && !pendingBatch && (
+                      <p className={`text-xs ${reconciliation.balanced ? "text-green-700" : "text-red-700"}`}>
+                        Opening balance {reconciliation.currency ?? "₹"} {reconciliation.opening.toFixed(2)} plus
+                        these lines comes to {reconciliation.computed.toFixed(2)}
+                        {reconciliation.balanced
+                          ? ", matching the closing balance."
+                          : `, but the file's closing balance is ${reconciliation.closing.toFixed(2)}; some lines may be missing.`}
+                      </p>
+                    )}
+                    {dateOrder && !pendingBatch && (
+                      <p className="text-xs text-gray-600">
+                        Dates read as {DATE_ORDER_LABELS[dateOrder.order]}
+                        {dateOrder.certain ? (
+                          "."
+                        ) : (
+                          <>
+                            , since none of them rules it out.{" "}
+                            <button
+                              type="button"
+                              onClick={handleSwitchDateOrder}
+                              disabled={loading}
+                              className="underline"
+                            >
+                              Read as{" "}
+                              {DATE_ORDER_LABELS[dateOrder.order === "day-first" ? "month-first" : "day-first"]}{" "}
+                              instead
+                            </button>
+                          </>
+                        )}
+                      </p>
+                    )}
+                    {chunkReport && !pendingBatch && (
+                      <div className="text-xs text-red-700">
+                        <p>
+                          {chunkReport.errors.length} of {chunkReport.count} parts of the statement
+                          couldn&apos;t be read, so their transactions are missing below:
+                        </p>
+                        <ul className="list-disc pl-4">
+                          {chunkReport.errors.map((e) => (
+                            <li key={e.chunk}>
+                              Part {e.chunk}: {e.message}
+                            </li>
+                          ))}
+                        </ul>
+                      </div>
+                    )}
+                    {sheet && !pendingBatch && (
+                      <p className="text-xs text-gray-600">
+                        {sheet.bankName
+                          ? `Read with the saved ${sheet.bankName} column mapping. `
+                          : "Read with a one-off column mapping. "}
+                        <button type="button" onClick={() => setMappingOpen(true)} className="underline">
+                          Change mapping
+                        </button>
+                        {sheet.skippedSheets.length > 0 &&
+                          ` Skipped sheets without the same header: ${sheet.skippedSheets.join(", ")}.`}
+                      </p>
+                    )}
+                    {previousImport && (
+                      <p className="text-xs text-amber-700">
+                        This file was already imported on{" "}
+                        {previousImport.importedAt.toLocaleDateString("en-IN")}.{" "}
+                        <Link href="/imports" className="underline">
+                          View import history
+                        </Link>
+                      </p>
+                    )}
+                    {duplicateCount > 0 && (
+                      <p className="text-xs text-amber-700">
+                        {duplicateCount} likely duplicate{duplicateCount === 1 ? "" : "s"} of
+                        transactions you already saved will be skipped unless you tick them.
+                      </p>
+                    )}
+                  </div>
                   <div className="flex gap-4 text-sm">
                     <span className="px-3 py-1 bg-blue-50 text-blue-700 rounded-md font-medium">
-                      Income: ₹{totalAmount("Income")}
+                      Income: ₹{totalAmount("income")}
                     </span>
                     <span className="px-3 py-1 bg-red-50 text-red-700 rounded-md font-medium">
-                      Expenses: ₹{totalAmount("Expense")}
+                      Expenses: ₹{totalAmount("expense")}
                     </span>
                   </div>
                 </div>
 
-                <div className="border rounded-lg overflow-hidden shadow-sm">
-                  <div className="max-h-[400px] overflow-auto">
-                    <table className="w-full text-sm">
-                      <thead className="bg-gray-50 text-gray-700 font-medium sticky top-0 z-10">
-                        <tr>
-                          <th className="px-4 py-3 text-left">Date</th>
-                          <th className="px-4 py-3 text-left">Description</th>
-                          <th className="px-4 py-3 text-left">Amount</th>
-                          <th className="px-4 py-3 text-left">Type</th>
-                          <th className="px-4 py-3 text-left">Category</th>
-                        </tr>
-                      </thead>
-                      <tbody className="divide-y divide-gray-200">
-                        {transactions.map((tx, i) => (
-                          <tr
-                            key={i}
-                            className="hover:bg-gray-50 transition duration-150"
-                          >
-                            <td className="px-4 py-3">{tx.date}</td>
-                            <td className="px-4 py-3">{tx.description}</td>
-                            <td className="px-4 py-3 font-medium">
-                              ₹{Math.abs(tx.amount)}
-                            </td>
-                            <td className="px-4 py-3">
-                              <span
-                                className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${
-                                  tx.type === "CR"
-                                    ? "bg-green-100 text-green-800"
-                                    : "bg-red-100 text-red-800"
-                                }`}
-                              >
-                                {tx.type === "CR" ? "Credit" : "Debit"}
-                              </span>
-                            </td>
-                            <td className="px-4 py-3">
-                              <span
-                                className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${
-                                  tx.classifiedAs === "Income"
-                                    ? "bg-blue-100 text-blue-800"
-                                    : "bg-yellow-100 text-yellow-800"
-                                }`}
-                              >
-                                {tx.classifiedAs}
-                              </span>
-                            </td>
-                          </tr>
-                        ))}
-                      </tbody>
-                    </table>
-                  </div>
-                </div>
+                <ImportPreviewTable rows={rows} errors={errors} onChange={setRows} />
 
-                <div className="mt-6 flex justify-end">
+                <div className="mt-6 flex items-center justify-end gap-4">
+                  {invalidCount > 0 && (
+                    <p className="text-sm text-red-600">
+                      Fix the highlighted fields in {invalidCount} selected row
+                      {invalidCount === 1 ? "" : "s"} before saving.
+                    </p>
+                  )}
                   <Button
                     onClick={handleSaveToFirebase}
-                    disabled={saving}
+                    disabled={saving || checking || selected.length === 0 || invalidCount > 0}
                     className="bg-green-600 hover:bg-green-700 text-white"
                   >
-                    {saving ? "Saving..." : "Save All to Database"}
+                    {saving
+                      ? "Saving..."
+                      : checking
+                        ? "Checking for duplicates..."
+                        : pendingBatch
+                          ? `Retry ${selected.length} failed row${selected.length === 1 ? "" : "s"}`
+                          : selected.length === rows.length
+                            ? "Save All to Database"
+                            : `Save ${selected.length} to Database`}
                   </Button>
                 </div>
               </div>
@@ -0,0 +1,144 @@
+// CategoryEditor.tsx — add/edit dialog for a category or income source
+
+"use client";
+
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import CategoryIcon, { CATEGORY_ICONS } from "@/components/categories/CategoryIcon";
+import { Category, CATEGORY_COLORS, NewCategory } from "@/lib/categories";
+import { TransactionKind } from "@/lib/transactions";
+import { cn } from "@/lib/utils";
+
+interface CategoryEditorProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  kind: TransactionKind;
+  // Existing category to edit; omitted when creating
+  category?: Category;
+  // Candidate parents (top-level categories of the same kind)
+  parents: Category[];
+  onSubmit: (input: NewCategory) => void;
+}
+
+export default function CategoryEditor({
+  open,
+  onOpenChange,
+  kind,
+  category,
+  parents,
+  onSubmit,
+}: CategoryEditorProps) {
+  const [name, setName] = useState(category?.name ?? "");
+  const [color, setColor] = useState(category?.color ?? CATEGORY_COLORS[0]);
+  const [icon, setIcon] = useState(category?.icon ?? "tag");
+  const [parentId, setParentId] = useState(category?.parentId ?? "");
+
+  const noun = kind === "income" ? "income source" : "category";
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    onSubmit({ kind, name, color, icon, parentId: parentId || null });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="bg-white text-black">
+        <DialogHeader>
+          <DialogTitle>{category ? `Edit ${noun}` : `New ${noun}`}</DialogTitle>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="category-name" className="text-muted-foreground">Name</Label>
+            <Input
+              id="category-name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder={kind === "income" ? "e.g. Rental income" : "e.g. Fuel"}
+              className="bg-muted/50 text-foreground border focus:border-primary"
+            />
+            {category && name.trim() !== category.name && (
+              <p className="text-xs text-muted-foreground">
+                Existing transactions named &quot;{category.name}&quot; will be renamed too.
+              </p>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="category-parent" className="text-muted-foreground">Parent</Label>
+            <select
+              id="category-parent"
+              value={parentId}
+              onChange={(e) => setParentId(e.target.value)}
+              className="w-full p-2 rounded-md bg-muted/50 text-foreground border border-input focus:border-primary"
+            >
+              <option value="">None (top level)</option>
+              {parents
+                .filter((p) => p.id !== category?.id)
+                .map((p) => (
+                  <option key={p.id} value={p.id}>{p.name}</option>
+                ))}
+            </select>
+          </div>
+
+          <div className="space-y-2">
+            <Label className="text-muted-foreground">Color</Label>
+            <div className="flex flex-wrap gap-2">
+              {CATEGORY_COLORS.map((c) => (
+                <button
+                  key={c}
+                  type="button"
+                  onClick={() => setColor(c)}
+                  aria-label={`Color ${c}`}
+                  className={cn(
+                    "h-7 w-7 rounded-full border-2 transition",
+                    color === c ? "border-black scale-110" : "border-transparent"
+                  )}
+                  style={{ backgroundColor: c }}
+                />
+              ))}
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label className="text-muted-foreground">Icon</Label>
+            <div className="grid grid-cols-8 gap-2">
+              {Object.keys(CATEGORY_ICONS).map((key) => (
+                <button
+                  key={key}
+                  type="button"
+                  onClick={() => setIcon(key)}
+                  aria-label={key}
+                  className={cn(
+                    "h-8 w-8 flex items-center justify-center rounded-md border transition",
+                    icon === key ? "border-primary bg-primary/10" : "border-border hover:bg-muted/50"
+                  )}
+                >
+                  <CategoryIcon icon={key} color={color} />
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" className="bg-primary hover:bg-primary/90 text-white">
+              {category ? "Save changes" : `Add ${noun}`}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
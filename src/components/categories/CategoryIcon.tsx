@@ -0,0 +1,66 @@
+// CategoryIcon.tsx — renders the icon stored on a category by key
+
+import {
+  Banknote,
+  Briefcase,
+  Building,
+  Car,
+  Coffee,
+  Dumbbell,
+  Film,
+  Fuel,
+  Gift,
+  GraduationCap,
+  HeartPulse,
+  House,
+  Laptop,
+  LucideIcon,
+  PiggyBank,
+  Plane,
+  Receipt,
+  ShoppingBag,
+  ShoppingCart,
+  Smartphone,
+  Tag,
+  TrendingUp,
+  Utensils,
+  Wifi,
+} from "lucide-react";
+
+export const CATEGORY_ICONS: Record<string, LucideIcon> = {
+  tag: Tag,
+  "shopping-cart": ShoppingCart,
+  utensils: Utensils,
+  coffee: Coffee,
+  plane: Plane,
+  car: Car,
+  fuel: Fuel,
+  house: House,
+  "shopping-bag": ShoppingBag,
+  receipt: Receipt,
+  wifi: Wifi,
+  smartphone: Smartphone,
+  "heart-pulse": HeartPulse,
+  dumbbell: Dumbbell,
+  film: Film,
+  "graduation-cap": GraduationCap,
+  banknote: Banknote,
+  briefcase: Briefcase,
+  laptop: Laptop,
+  "trending-up": TrendingUp,
+  building: Building,
+  gift: Gift,
+  "piggy-bank": PiggyBank,
+};
+
+interface CategoryIconProps {
+  icon: string;
+  color?: string;
+  size?: number;
+  className?: string;
+}
+
+export default function CategoryIcon({ icon, color, size = 16, className }: CategoryIconProps) {
+  const Icon = CATEGORY_ICONS[icon] ?? Tag;
+  return <Icon size={size} color={color} className={className} />;
+}
@@ -0,0 +1,56 @@
+// CategorySelect.tsx — native select over the user's categories or income sources
+
+"use client";
+
+import { useCategories } from "@/context/CategoriesContext";
+import { findCategory, sortCategoryTree } from "@/lib/categories";
+import { TransactionKind } from "@/lib/transactions";
+
+// Option value that asks the form for a free-text name instead
+export const CUSTOM_CATEGORY = "__custom__";
+
+interface CategorySelectProps {
+  id: string;
+  kind: TransactionKind;
+  value: string;
+  onChange: (value: string) => void;
+  disabled?: boolean;
+  placeholder?: string;
+  allowCustom?: boolean; // Offer the "Other" free-text option
+}
+
+export default function CategorySelect({
+  id,
+  kind,
+  value,
+  onChange,
+  disabled,
+  placeholder = "Select a category",
+  allowCustom = true,
+}: CategorySelectProps) {
+  const { categories } = useCategories(kind);
+
+  // Keep legacy or deleted names selectable when editing old transactions
+  const isUnknown = !!value && value !== CUSTOM_CATEGORY && !findCategory(categories, kind, value);
+
+  return (
+    <select
+      id={id}
+      value={value}
+      onChange={(e) => onChange(e.target.value)}
+      disabled={disabled}
+      className="w-full p-2 rounded-md bg-muted/50 text-foreground border border-input focus:border-primary"
+    >
+      <option value="">{placeholder}</option>
+      {sortCategoryTree(categories).map(({ category, depth }) => (
+        <option key={category.id} value={category.name}>
+          {depth > 0 ? `   ${category.name}` : category.name}
+        </option>
+      ))}
+      {isUnknown && <option value={value}>{value}</option>}
+      {allowCustom && (
+        <option value={CUSTOM_CATEGORY}>Other (new {kind === "income" ? "source" : "category"})</option>
+      )}
+    </select>
+  );
+}
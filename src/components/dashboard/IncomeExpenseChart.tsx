@@ -2,7 +2,7 @@
 
 "use client";
 
-import { useEffect, useState } from "react";
+import { useMemo } from "react";
 import { Card, CardContent } from "@/components/ui/card";
 import {
   ResponsiveContainer,
@@ -13,9 +13,8 @@ import {
   Tooltip,
   Legend,
 } from "recharts";
-import { collection, getDocs, query, where } from "firebase/firestore";
-import { db } from "@/lib/firebase";
-import { useAuth } from "@/context/AuthContext";
+import { useTransactions } from "@/context/TransactionsContext";
+import { filterByRange, yearRange } from "@/lib/transactions";
 
 interface IncomeExpenseChartProps {
   year: number; // Financial year to filter
@@ -33,84 +32,30 @@ const MONTH_NAMES = [
 ];
 
 export default function IncomeExpenseChart({ year }: IncomeExpenseChartProps) {
-  const { user } = useAuth();
-
-  const [data, setData] = useState<DataPoint[]>([]);
-  const [loading, setLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
-
-  useEffect(() => {
-    if (!user) return;
-
-    const fetchIncomeExpenseData = async () => {
-      setLoading(true);
-      setError(null);
-
-      // Initialize data map for 12 months
-      const monthly: Record<number, { income: number; expenses: number }> = {};
-      for (let i = 0; i < 12; i++) {
-        monthly[i] = { income: 0, expenses: 0 };
-      }
-
-      try {
-        // 🔁 Fetch income records
-        const incomeQuery = query(
-          collection(db, "incomes"),
-          where("userId", "==", user.uid)
-        );
-        const incomeSnap = await getDocs(incomeQuery);
-
-        incomeSnap.forEach((doc) => {
-          const data = doc.data();
-          const dt = data.date?.seconds
-            ? new Date(data.date.seconds * 1000)
-            : new Date(data.date);
-
-          if (dt.getFullYear() === year) {
-            const monthIdx = dt.getMonth();
-            monthly[monthIdx].income += Number(data.amount || 0);
-          }
-        });
-
-        // 🔁 Fetch expense records
-        const expenseQuery = query(
-          collection(db, "expenses"),
-          where("userId", "==", user.uid)
-        );
-        const expenseSnap = await getDocs(expenseQuery);
-
-        expenseSnap.forEach((doc) => {
-          const data = doc.data();
-          const dt = data.date?.seconds
-            ? new Date(data.date.seconds * 1000)
-            : new Date(data.date);
-
-          if (dt.getFullYear() === year) {
-            const monthIdx = dt.getMonth();
-            monthly[monthIdx].expenses += Number(data.amount || 0);
-          }
-        });
-
-        // 🧾 Convert to chart-friendly format
-        const chartData: DataPoint[] = Object.entries(monthly).map(
-          ([idx, val]) => ({
-            month: MONTH_NAMES[parseInt(idx)],
-            income: val.income,
-            expenses: val.expenses,
-          })
-        );
-
-        setData(chartData);
-      } catch (err) {
-        console.error("Error fetching chart data:", err);
-        setError("Failed to load chart data.");
-      } finally {
-        setLoading(false);
-      }
-    };
-
-    fetchIncomeExpenseData();
-  }, [year, user]);
+  const { incomes, expenses, loading, error } = useTransactions();
+
+  const data = useMemo<DataPoint[]>(() => {
+    // Initialize data map for 12 months
+    const monthly: Record<number, { income: number; expenses: number }> = {};
+    for (let i = 0; i < 12; i++) {
+      monthly[i] = { income: 0, expenses: 0 };
+    }
+
+    const range = yearRange(year);
+    for (const t of filterByRange(incomes, range)) {
+      monthly[t.date.getMonth()].income += t.amount;
+    }
+    for (const t of filterByRange(expenses, range)) {
+      monthly[t.date.getMonth()].expenses += t.amount;
+    }
+
+    // 🧾 Convert to chart-friendly format
+    return Object.entries(monthly).map(([idx, val]) => ({
+      month: MONTH_NAMES[parseInt(idx)],
+      income: val.income,
+      expenses: val.expenses,
+    }));
+  }, [incomes, expenses, year]);
 
   return (
     <Card className="bg-white text-foreground shadow-sm hover:shadow transition-all duration-200 border border-border">
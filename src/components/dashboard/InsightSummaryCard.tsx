@@ -2,12 +2,12 @@
 
 "use client";
 
-import { useEffect, useState } from "react";
+import { useEffect, useMemo, useState } from "react";
 import { Card, CardContent } from "@/components/ui/card";
-import { collection, getDocs, query, where } from "firebase/firestore";
-import { db } from "@/lib/firebase";
 import { BadgeCheck, Lightbulb, TrendingUp } from "lucide-react";
 import { useAuth } from "@/context/AuthContext";
+import { useTransactions } from "@/context/TransactionsContext";
+import { filterByRange, monthRange, sumAmounts } from "@/lib/transactions";
 
 interface InsightSummaryCardProps {
   month: number; // Month index (0–11)
@@ -16,6 +16,7 @@ interface InsightSummaryCardProps {
 
 export default function InsightSummaryCard({ month, year }: InsightSummaryCardProps) {
   const { user } = useAuth();
+  const { incomes, expenses, loading: transactionsLoading } = useTransactions();
 
   const [insightPoints, setInsightPoints] = useState<string[]>([]);
   const [loading, setLoading] = useState<boolean>(false);
@@ -26,68 +27,23 @@ export default function InsightSummaryCard({ month, year }: InsightSummaryCardPr
     month: "long",
   });
 
+  const { totalIncome, totalExpense } = useMemo(() => {
+    const range = monthRange(year, month);
+    return {
+      totalIncome: sumAmounts(filterByRange(incomes, range)),
+      totalExpense: sumAmounts(filterByRange(expenses, range)),
+    };
+  }, [incomes, expenses, month, year]);
+
   useEffect(() => {
-    if (!user) return;
+    if (!user || transactionsLoading) return;
 
     const fetchInsight = async () => {
       setLoading(true);
       setInsightPoints([]);
       setError(null);
 
-      let totalIncome = 0;
-      let totalExpense = 0;
-
       try {
-        // 🔹 Fetch income entries
-        const incomeQuery = query(
-          collection(db, "incomes"),
-          where("userId", "==", user.uid)
-        );
-        const incomeSnap = await getDocs(incomeQuery);
-        incomeSnap.forEach((doc) => {
-          const d = doc.data();
-          const rawDate = d.date;
-
-          let dt: Date | null = null;
-          if (rawDate?.seconds) dt = new Date(rawDate.seconds * 1000);
-          else if (typeof rawDate === "string") dt = new Date(rawDate);
-          else if (rawDate instanceof Date) dt = rawDate;
-
-          if (
-            dt &&
-            dt.getFullYear() === year &&
-            dt.getMonth() === month &&
-            typeof d.amount === "number"
-          ) {
-            totalIncome += d.amount;
-          }
-        });
-
-        // Fetch expense entries
-        const expenseQuery = query(
-          collection(db, "expenses"),
-          where("userId", "==", user.uid)
-        );
-        const expenseSnap = await getDocs(expenseQuery);
-        expenseSnap.forEach((doc) => {
-          const d = doc.data();
-          const rawDate = d.date;
-
-          let dt: Date | null = null;
-          if (rawDate?.seconds) dt = new Date(rawDate.seconds * 1000);
-          else if (typeof rawDate === "string") dt = new Date(rawDate);
-          else if (rawDate instanceof Date) dt = rawDate;
-
-          if (
-            dt &&
-            dt.getFullYear() === year &&
-            dt.getMonth() === month &&
-            typeof d.amount === "number"
-          ) {
-            totalExpense += d.amount;
-          }
-        });
-
         const savings = totalIncome - totalExpense;
 
         // Generate Gemini prompt for insights
@@ -143,7 +99,7 @@ Savings: ₹${savings.toFixed(2)}
     };
 
     fetchInsight();
-  }, [month, year, user, monthName]);
+  }, [month, year, user, monthName, totalIncome, totalExpense, transactionsLoading]);
 
   // Insight type to icon map
   const iconMap = [
@@ -2,15 +2,15 @@
 
 "use client";
 
-import { useEffect, useState } from "react";
+import { useMemo } from "react";
 import { Card, CardContent } from "@/components/ui/card";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { Download } from "lucide-react";
-import { db } from "@/lib/firebase";
-import { collection, getDocs, query, Timestamp, where } from "firebase/firestore";
-import { useAuth } from "@/context/AuthContext";
+import { useTransactions } from "@/context/TransactionsContext";
+import { filterByRange, monthRange, Transaction as StoredTransaction } from "@/lib/transactions";
+import TransactionActions from "@/components/transactions/TransactionActions";
 
 interface LatestTransactionsTableProps {
   month: number;
@@ -23,82 +23,39 @@ interface Transaction {
   amount: number;
   type: string;
   date: Date;
+  record: StoredTransaction;
 }
 
 export default function LatestTransactionsTable({ month, year }: LatestTransactionsTableProps) {
-  const { user } = useAuth();
-  const [transactionsToDisplay, setTransactionsToDisplay] = useState<Transaction[]>([]);
-  const [allMonthlyTransactions, setAllMonthlyTransactions] = useState<Transaction[]>([]);
-  const [loading, setLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
+  const { incomes, expenses, loading, error, applyChange } = useTransactions();
 
   const selectedMonthName = new Date(year, month).toLocaleString("default", { month: "long" });
 
-  useEffect(() => {
-    if (!user) return;
-
-    const parseDate = (raw: Timestamp | string | Date | undefined | null): Date | null => {
-      if (!raw) return null;
-      if (raw instanceof Timestamp) return raw.toDate();
-      if (typeof raw === "string") return new Date(raw);
-      if (raw instanceof Date) return raw;
-      return null;
-    };
-
-    const fetchTransactions = async () => {
-      setLoading(true);
-      setError(null);
-      const transactions: Transaction[] = [];
-
-      try {
-        // 🔹 Fetch incomes
-        const incomeQuery = query(collection(db, "incomes"), where("userId", "==", user.uid));
-        const incomeSnap = await getDocs(incomeQuery);
-        incomeSnap.forEach((doc) => {
-          const d = doc.data();
-          const dt = parseDate(d.date);
-          if (dt && dt.getFullYear() === year && dt.getMonth() === month && typeof d.amount === "number") {
-            transactions.push({
-              id: doc.id,
-              title: d.title || d.source || "Income",
-              amount: d.amount,
-              type: "Income",
-              date: dt,
-            });
-          }
-        });
-
-        // 🔻 Fetch expenses
-        const expenseQuery = query(collection(db, "expenses"), where("userId", "==", user.uid));
-        const expenseSnap = await getDocs(expenseQuery);
-        expenseSnap.forEach((doc) => {
-          const d = doc.data();
-          const dt = parseDate(d.date);
-          if (dt && dt.getFullYear() === year && dt.getMonth() === month && typeof d.amount === "number") {
-            transactions.push({
-              id: doc.id,
-              title: d.title || d.category || "Expense",
-              amount: -d.amount, // Show expense as negative
-              type: d.category || "Expense",
-              date: dt,
-            });
-          }
-        });
-
-        transactions.sort((a, b) => b.date.getTime() - a.date.getTime());
-
-        setAllMonthlyTransactions(transactions);
-        setTransactionsToDisplay(transactions.slice(0, 50)); // Show recent 50
-      } catch (err) {
-        console.error("Error fetching transactions:", err);
-        setError("Failed to load transactions. Please try again.");
-      } finally {
-        setLoading(false);
-      }
-    };
-
-    fetchTransactions();
-  }, [month, year, user]);
+  const allMonthlyTransactions = useMemo<Transaction[]>(() => {
+    const range = monthRange(year, month);
+    const transactions: Transaction[] = [
+      ...filterByRange(incomes, range).map((t) => ({
+        id: t.id,
+        title: t.title || t.category || "Income",
+        amount: t.amount,
+        type: "Income",
+        date: t.date,
+        record: t,
+      })),
+      ...filterByRange(expenses, range).map((t) => ({
+        id: t.id,
+        title: t.title || t.category || "Expense",
+        amount: -t.amount, // Show expense as negative
+        type: t.category || "Expense",
+        date: t.date,
+        record: t,
+      })),
+    ];
+
+    return transactions.sort((a, b) => b.date.getTime() - a.date.getTime());
+  }, [incomes, expenses, month, year]);
+
+  const transactionsToDisplay = allMonthlyTransactions.slice(0, 50); // Show recent 50
 
   const formatDate = (date: Date): string =>
     date.toLocaleDateString("en-US", {
@@ -183,12 +140,18 @@ export default function LatestTransactionsTable({ month, year }: LatestTransacti
                     >
                       {txn.amount > 0 ? "+" : ""}₹{Math.abs(txn.amount).toFixed(2)}
                     </p>
-                    <Badge
-                      variant="outline"
-                      className={`mt-1 ${txn.amount > 0 ? "bg-green-50 text-green-600 border-green-200" : "bg-red-50 text-red-600 border-red-200"}`}
-                    >
-                      {txn.type}
-                    </Badge>
+                    <div className="flex items-center justify-end gap-1 mt-1">
+                      <Badge
+                        variant="outline"
+                        className={txn.amount > 0 ? "bg-green-50 text-green-600 border-green-200" : "bg-red-50 text-red-600 border-red-200"}
+                      >
+                        {txn.type}
+                      </Badge>
+                      <TransactionActions
+                        transaction={txn.record}
+                        onChange={(next) => applyChange(txn.record.kind, txn.id, next)}
+                      />
+                    </div>
                   </div>
                 </li>
               ))}
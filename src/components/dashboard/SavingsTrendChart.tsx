@@ -1,6 +1,6 @@
 "use client";
 
-import { useEffect, useMemo, useState } from "react";
+import { useMemo } from "react";
 import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Download } from "lucide-react";
@@ -13,15 +13,8 @@ import {
   ResponsiveContainer,
   CartesianGrid,
 } from "recharts";
-import {
-  collection,
-  getDocs,
-  query,
-  where,
-  Timestamp,
-} from "firebase/firestore";
-import { db } from "@/lib/firebase";
-import { useAuth } from "@/context/AuthContext";
+import { useTransactions } from "@/context/TransactionsContext";
+import { filterByRange, yearRange } from "@/lib/transactions";
 
 interface SavingsTrendChartProps {
   year: number;
@@ -35,9 +28,7 @@ interface SavingsDataPoint {
 }
 
 export default function SavingsTrendChart({ year }: SavingsTrendChartProps) {
-  const { user } = useAuth();
-  const [data, setData] = useState<SavingsDataPoint[]>([]);
-  const [loading, setLoading] = useState(true);
+  const { incomes, expenses, loading } = useTransactions();
 
   const monthNames = useMemo(
     () => [
@@ -47,63 +38,28 @@ export default function SavingsTrendChart({ year }: SavingsTrendChartProps) {
     []
   );
 
-  const parseDate = (raw: Timestamp | string | Date | null | undefined): Date | null => {
-    if (!raw) return null;
-    if (raw instanceof Timestamp) return raw.toDate();
-    if (typeof raw === "string") return new Date(raw);
-    if (raw instanceof Date) return raw;
-    return null;
-  };
-
-  useEffect(() => {
-    if (!user) return;
-
-    const fetchSavingsData = async () => {
-      setLoading(true);
-
-      const monthly: SavingsDataPoint[] = monthNames.map((month) => ({
-        month,
-        income: 0,
-        expense: 0,
-        savings: 0,
-      }));
-
-      try {
-        const [incomeSnap, expenseSnap] = await Promise.all([
-          getDocs(query(collection(db, "incomes"), where("userId", "==", user.uid))),
-          getDocs(query(collection(db, "expenses"), where("userId", "==", user.uid))),
-        ]);
-
-        incomeSnap.forEach((doc) => {
-          const { amount, date } = doc.data();
-          const parsed = parseDate(date);
-          if (parsed && parsed.getFullYear() === year && typeof amount === "number") {
-            monthly[parsed.getMonth()].income += amount;
-          }
-        });
-
-        expenseSnap.forEach((doc) => {
-          const { amount, date } = doc.data();
-          const parsed = parseDate(date);
-          if (parsed && parsed.getFullYear() === year && typeof amount === "number") {
-            monthly[parsed.getMonth()].expense += amount;
-          }
-        });
-
-        monthly.forEach((entry) => {
-          entry.savings = entry.income - entry.expense;
-        });
-
-        setData(monthly);
-      } catch (error) {
-        console.error("Failed to fetch savings data:", error);
-      } finally {
-        setLoading(false);
-      }
-    };
-
-    fetchSavingsData();
-  }, [user, year, monthNames]);
+  const data = useMemo<SavingsDataPoint[]>(() => {
+    const monthly: SavingsDataPoint[] = monthNames.map((month) => ({
+      month,
+      income: 0,
+      expense: 0,
+      savings: 0,
+    }));
+
+    const range = yearRange(year);
+    for (const t of filterByRange(incomes, range)) {
+      monthly[t.date.getMonth()].income += t.amount;
+    }
+    for (const t of filterByRange(expenses, range)) {
+      monthly[t.date.getMonth()].expense += t.amount;
+    }
+
+    monthly.forEach((entry) => {
+      entry.savings = entry.income - entry.expense;
+    });
+
+    return monthly;
+  }, [incomes, expenses, year, monthNames]);
 
   const handleDownloadCSV = () => {
     const header = "Month,Income,Expenses,Savings\n";
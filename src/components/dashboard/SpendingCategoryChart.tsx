@@ -1,6 +1,6 @@
 "use client";
 
-import { useEffect, useMemo, useState } from "react";
+import { useMemo } from "react";
 import {
   PieChart,
   Pie,
@@ -10,9 +10,10 @@ import {
   Legend,
 } from "recharts";
 import { Card, CardContent } from "@/components/ui/card";
-import { collection, getDocs, query, Timestamp, where } from "firebase/firestore";
-import { db } from "@/lib/firebase";
-import { useAuth } from "@/context/AuthContext";
+import { useCategories } from "@/context/CategoriesContext";
+import { useTransactions } from "@/context/TransactionsContext";
+import { categoryColor } from "@/lib/categories";
+import { categoryTotals, filterByRange, monthRange } from "@/lib/transactions";
 
 interface SpendingCategoryChartProps {
   month: number;
@@ -22,76 +23,25 @@ interface SpendingCategoryChartProps {
 interface CategoryDataPoint {
   name: string;
   value: number;
+  color: string;
 }
 
-const COLORS = [
-  "#14b8a6", "#fcd34d", "#a78bfa", "#34d399", "#f87171",
-  "#818cf8", "#fb923c", "#c084fc", "#2dd4bf", "#e879f9",
-];
-
-const parseDate = (raw: Timestamp | string | Date | null | undefined): Date | null => {
-  if (!raw) return null;
-  if (raw instanceof Timestamp) return raw.toDate();
-  if (typeof raw === "string") return new Date(raw);
-  if (raw instanceof Date) return raw;
-  return null;
-};
-
 export default function SpendingCategoryChart({ month, year }: SpendingCategoryChartProps) {
-  const { user } = useAuth();
-  const [data, setData] = useState<CategoryDataPoint[]>([]);
-  const [loading, setLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
+  const { expenses, loading, error } = useTransactions();
+  const { categories } = useCategories("expense");
 
   const selectedMonthName = useMemo(() => {
     return new Date(year, month).toLocaleString("default", { month: "long" });
   }, [month, year]);
 
-  useEffect(() => {
-    if (!user) return;
-
-    const fetchCategoryData = async () => {
-      setLoading(true);
-      setError(null);
-
-      const categoryMap: Record<string, number> = {};
-
-      try {
-        const expenseQuery = query(
-          collection(db, "expenses"),
-          where("userId", "==", user.uid)
-        );
-        const snapshot = await getDocs(expenseQuery);
-
-        snapshot.forEach((doc) => {
-          const { date, amount, category } = doc.data();
-          const parsedDate = parseDate(date);
-          if (
-            parsedDate &&
-            parsedDate.getFullYear() === year &&
-            parsedDate.getMonth() === month &&
-            typeof amount === "number"
-          ) {
-            const cat = category || "Uncategorized";
-            categoryMap[cat] = (categoryMap[cat] || 0) + amount;
-          }
-        });
-
-        const formattedData: CategoryDataPoint[] = Object.entries(categoryMap)
-          .map(([name, value]) => ({ name, value }))
-          .sort((a, b) => b.value - a.value);
-
-        setData(formattedData);
-      } catch (err) {
-        console.error("Failed to fetch category data:", err);
-        setError("Failed to load spending category data.");
-      } finally {
-        setLoading(false);
-      }
-    };
+  const data = useMemo<CategoryDataPoint[]>(() => {
+    // Categorized receipt line items count towards their own category
+    const categoryMap = categoryTotals(filterByRange(expenses, monthRange(year, month)));
 
-    fetchCategoryData();
-  }, [month, year, user]);
+    return Object.entries(categoryMap)
+      .map(([name, value]) => ({ name, value, color: categoryColor(categories, "expense", name) }))
+      .sort((a, b) => b.value - a.value);
+  }, [expenses, categories, month, year]);
 
   return (
     <Card className="bg-primary/10 text-foreground shadow-sm hover:shadow transition-all duration-200 border border-primary/20 h-full overflow-hidden">
@@ -128,11 +78,8 @@ export default function SpendingCategoryChart({ month, year }: SpendingCategoryC
                   isAnimationActive
                   animationDuration={800}
                 >
-                  {data.map((entry, index) => (
-                    <Cell
-                      key={`cell-${entry.name}`}
-                      fill={COLORS[index % COLORS.length]}
-                    />
+                  {data.map((entry) => (
+                    <Cell key={`cell-${entry.name}`} fill={entry.color} />
                   ))}
                 </Pie>
                 <Tooltip
@@ -1,10 +1,9 @@
 "use client";
 
-import { useEffect, useState } from "react";
+import { useMemo } from "react";
 import { Card, CardContent } from "@/components/ui/card";
-import { collection, getDocs, query, where, Timestamp } from "firebase/firestore";
-import { db } from "@/lib/firebase";
-import { useAuth } from "@/context/AuthContext";
+import { useTransactions } from "@/context/TransactionsContext";
+import { filterByRange, monthRange, sumAmounts } from "@/lib/transactions";
 import {
   ResponsiveContainer,
   LineChart,
@@ -26,112 +25,45 @@ interface BalanceDataPoint {
 }
 
 export default function TotalBalanceCard({ month, year }: TotalBalanceCardProps) {
-  const { user } = useAuth();
-
-  const [data, setData] = useState<BalanceDataPoint[]>([]);
-  const [currentBalance, setCurrentBalance] = useState(0);
-  const [currentIncome, setCurrentIncome] = useState(0);
-  const [currentExpense, setCurrentExpense] = useState(0);
-  const [change, setChange] = useState<number | null>(null);
-
-  const parseDate = (raw: Timestamp | string | Date | null | undefined): Date | null => {
-    if (!raw) return null;
-    if (raw instanceof Timestamp) return raw.toDate();
-    if (typeof raw === "string") return new Date(raw);
-    if (raw instanceof Date) return raw;
-    return null;
-  };
-
-  useEffect(() => {
-    if (!user) return;
-
-    const fetchData = async () => {
-      try {
-        const incomeQuery = query(
-          collection(db, "incomes"),
-          where("userId", "==", user.uid)
-        );
-        const expenseQuery = query(
-          collection(db, "expenses"),
-          where("userId", "==", user.uid)
-        );
-
-        const [incomeSnap, expenseSnap] = await Promise.all([
-          getDocs(incomeQuery),
-          getDocs(expenseQuery),
-        ]);
-
-        const balances: BalanceDataPoint[] = [];
-
-        let thisMonthIncome = 0;
-        let thisMonthExpense = 0;
-
-        for (let i = 5; i >= 0; i--) {
-          const targetDate = new Date(year, month - i, 1);
-          const targetMonth = targetDate.getMonth();
-          const targetYear = targetDate.getFullYear();
-
-          let monthIncome = 0;
-          let monthExpense = 0;
-
-          incomeSnap.forEach((doc) => {
-            const entry = doc.data();
-            const dt = parseDate(entry.date);
-            if (
-              dt &&
-              dt.getMonth() === targetMonth &&
-              dt.getFullYear() === targetYear &&
-              typeof entry.amount === "number"
-            ) {
-              monthIncome += entry.amount;
-            }
-          });
-
-          expenseSnap.forEach((doc) => {
-            const entry = doc.data();
-            const dt = parseDate(entry.date);
-            if (
-              dt &&
-              dt.getMonth() === targetMonth &&
-              dt.getFullYear() === targetYear &&
-              typeof entry.amount === "number"
-            ) {
-              monthExpense += entry.amount;
-            }
-          });
-
-          balances.push({
-            month: targetDate.toLocaleString("default", { month: "short" }),
-            balance: monthIncome - monthExpense,
-          });
-
-          if (targetMonth === month && targetYear === year) {
-            thisMonthIncome = monthIncome;
-            thisMonthExpense = monthExpense;
-          }
-        }
-
-        const latestBalance = thisMonthIncome - thisMonthExpense;
-        const prevBalance = balances[balances.length - 2]?.balance || 0;
-
-        setData(balances);
-        setCurrentIncome(thisMonthIncome);
-        setCurrentExpense(thisMonthExpense);
-        setCurrentBalance(latestBalance);
-
-        if (prevBalance !== 0) {
-          const percentChange = ((latestBalance - prevBalance) / Math.abs(prevBalance)) * 100;
-          setChange(parseFloat(percentChange.toFixed(1)));
-        } else {
-          setChange(latestBalance !== 0 ? 100 : 0);
-        }
-      } catch (error) {
-        console.error("Error fetching balance data:", error);
-      }
+  const { incomes, expenses } = useTransactions();
+
+  const { data, currentBalance, currentIncome, currentExpense, change } = useMemo(() => {
+    const balances: BalanceDataPoint[] = [];
+
+    for (let i = 5; i >= 0; i--) {
+      const targetDate = new Date(year, month - i, 1);
+      const range = monthRange(targetDate.getFullYear(), targetDate.getMonth());
+
+      balances.push({
+        month: targetDate.toLocaleString("default", { month: "short" }),
+        balance:
+          sumAmounts(filterByRange(incomes, range)) - sumAmounts(filterByRange(expenses, range)),
+      });
+    }
+
+    const thisMonth = monthRange(year, month);
+    const thisMonthIncome = sumAmounts(filterByRange(incomes, thisMonth));
+    const thisMonthExpense = sumAmounts(filterByRange(expenses, thisMonth));
+    const latestBalance = thisMonthIncome - thisMonthExpense;
+    const prevBalance = balances[balances.length - 2]?.balance || 0;
+
+    let percentChange: number;
+    if (prevBalance !== 0) {
+      percentChange = parseFloat(
+        (((latestBalance - prevBalance) / Math.abs(prevBalance)) * 100).toFixed(1)
+      );
+    } else {
+      percentChange = latestBalance !== 0 ? 100 : 0;
+    }
+
+    return {
+      data: balances,
+      currentBalance: latestBalance,
+      currentIncome: thisMonthIncome,
+      currentExpense: thisMonthExpense,
+      change: percentChange,
     };
-
-    fetchData();
-  }, [user, month, year]);
+  }, [incomes, expenses, month, year]);
 
   return (
     <Card className="bg-primary/10 text-foreground h-full shadow-sm hover:shadow transition-all duration-200 border border-border">
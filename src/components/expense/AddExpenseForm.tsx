@@ -8,41 +8,17 @@ import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Label } from "@/components/ui/label";
-import { CalendarIcon, IndianRupee, Receipt, Folder as FolderIcon, FileText as FileIcon, Upload } from "lucide-react";
-import { addDoc, collection, serverTimestamp } from "firebase/firestore";
-import { db } from "@/lib/firebase";
+import { CalendarIcon, IndianRupee, Receipt, Folder as FolderIcon, FileText as FileIcon, Upload, AlignLeft } from "lucide-react";
+import CategorySelect, { CUSTOM_CATEGORY } from "@/components/categories/CategorySelect";
 import { useAuth } from "@/context/AuthContext";
+import { ensureCategory } from "@/lib/categories";
+import { actorName, ChangeSource } from "@/lib/history";
+import { ReceiptExtraction, receiptDate, ReceiptLineItem, receiptText } from "@/lib/receipts";
+import { categorize } from "@/lib/rules";
+import { addTransaction, NewTransaction, Transaction } from "@/lib/transactions";
 import DatePicker from "react-datepicker";
 import "react-datepicker/dist/react-datepicker.css";
 
-// Constants
-const CATEGORY_OPTIONS = [
-  "Groceries",
-  "Food",
-  "Travel",
-  "Rent",
-  "Shopping",
-  "Bills",
-  "Medical",
-  "Entertainment",
-  "Misc",
-  "Other",
-] as const;
-
-// Detect category from raw OCR string
-function detectExpenseCategory(text: string): string {
-  const lower = text.toLowerCase();
-  if (/(grocery|supermarket|mart)/.test(lower)) return "Groceries";
-  if (/(restaurant|food|cafe|dine)/.test(lower)) return "Food";
-  if (/(uber|ola|travel|taxi|flight|train|bus)/.test(lower)) return "Travel";
-  if (/rent/.test(lower)) return "Rent";
-  if (/shopping|store|mall/.test(lower)) return "Shopping";
-  if (/medical|pharma|hospital|clinic/.test(lower)) return "Medical";
-  if (/bill|electricity|water|utility|internet/.test(lower)) return "Bills";
-  if (/movie|entertainment|netflix|spotify|show/.test(lower)) return "Entertainment";
-  return "Misc";
-}
-
 // Clean amount string
 function normalizeAmount(raw: string): string {
   return raw.replace(/(?<=\d),(?=\d)/g, "").trim();
@@ -61,18 +37,53 @@ async function safeParseJson<T = unknown>(res: Response): Promise<T | null> {
 
 interface AddExpenseFormProps {
   onAdded?: () => void;
+  // Edit mode: prefill from `expense` and hand the result to `onSave` instead of creating
+  expense?: Transaction;
+  onSave?: (input: NewTransaction, source: ChangeSource) => void;
 }
 
-export default function AddExpenseForm({ onAdded }: AddExpenseFormProps) {
+export default function AddExpenseForm({ onAdded, expense, onSave }: AddExpenseFormProps) {
   const { user } = useAuth();
-  const [amount, setAmount] = useState("");
-  const [category, setCategory] = useState("");
+  const isEditing = !!expense;
+  const [amount, setAmount] = useState(expense ? String(expense.amount) : "");
+  const [category, setCategory] = useState(expense?.category ?? "");
   const [customCategory, setCustomCategory] = useState("");
-  const [date, setDate] = useState<Date | null>(new Date());
+  const [title, setTitle] = useState(expense?.title ?? "");
+  const [tags, setTags] = useState<string[]>(expense?.tags ?? []);
+  // Name of the rule that picked the category, while the user hasn't overridden it
+  const [matchedRule, setMatchedRule] = useState<string | null>(null);
+  const [date, setDate] = useState<Date | null>(expense?.date ?? new Date());
   const [isExtracting, setIsExtracting] = useState(false);
+  // Whether the current values were filled in from an uploaded receipt
+  const [fromReceipt, setFromReceipt] = useState(false);
+  const [receipt, setReceipt] = useState<ReceiptExtraction | null>(null);
+  const [lineItems, setLineItems] = useState<ReceiptLineItem[]>(expense?.lineItems ?? []);
   const [isSubmitting, setIsSubmitting] = useState(false);
 
-  const showCustomInput = category === "Other" || category === "Misc";
+  const showCustomInput = category === CUSTOM_CATEGORY;
+
+  // Runs the user's categorization rules over a description or receipt text;
+  // `replace` lets the rule's category win over one picked before (a new receipt)
+  const suggestFromRules = async (text: string, amountValue: number, replace = false) => {
+    if (!user || !text.trim()) return;
+
+    try {
+      const outcome = await categorize(user.uid, {
+        description: text,
+        amount: amountValue || 0,
+        direction: "debit",
+      });
+      if (outcome.matched.length === 0) return;
+
+      // A category the user picked by hand is never overwritten
+      if (outcome.category && (replace || !category || matchedRule)) setCategory(outcome.category);
+      if (outcome.rename) setTitle(outcome.rename);
+      setTags(outcome.tags);
+      setMatchedRule(outcome.matched[0].name);
+    } catch (err) {
+      console.error("Rule evaluation failed:", err);
+    }
+  };
 
   // Upload handler for both image and PDF
   const handleFileUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
@@ -93,17 +104,25 @@ export default function AddExpenseForm({ onAdded }: AddExpenseFormProps) {
           body: JSON.stringify({ base64, mimeType: file.type }),
         });
 
-        const data = await safeParseJson<{ amount?: number; modelRaw?: string }>(res);
+        const data = await safeParseJson<{ amount?: number; receipt?: ReceiptExtraction }>(res);
 
-        if (!res.ok || !data) return toast.error("Extraction failed");
+        if (res.status === 422) return toast.warning("Amount not detected. Enter manually.");
+        if (!res.ok || !data?.receipt?.total) return toast.error("Extraction failed");
 
-        if (data.amount) {
-          setAmount(normalizeAmount(data.amount.toString()));
-          setCategory(detectExpenseCategory(data.modelRaw || ""));
-          setDate(new Date());
-          toast.success("Details extracted successfully");
+        const extracted = data.receipt;
+        const total = extracted.total ?? 0;
+        setReceipt(extracted);
+        setAmount(normalizeAmount(total.toString()));
+        setDate(receiptDate(extracted) ?? new Date());
+        if (extracted.merchant) setTitle(extracted.merchant);
+        setLineItems(extracted.lineItems);
+        setFromReceipt(true);
+        await suggestFromRules(receiptText(extracted), total, true);
+
+        if (extracted.currency && extracted.currency !== "INR") {
+          toast.warning(`Receipt is in ${extracted.currency}; check the amount before saving.`);
         } else {
-          toast.warning("Amount not detected. Enter manually.");
+          toast.success("Details extracted successfully");
         }
       } catch (err) {
         console.error("File extract error:", err);
@@ -128,21 +147,46 @@ export default function AddExpenseForm({ onAdded }: AddExpenseFormProps) {
     if (showCustomInput && !customCategory.trim()) return toast.error("Please enter custom category");
     if (!user) return toast.error("Login required");
 
+    const changeSource: ChangeSource = fromReceipt ? "receipt" : "manual";
+
+    // Names typed into "Other" become categories for next time
+    if (showCustomInput) {
+      ensureCategory(user.uid, "expense", finalCategory).catch((err) =>
+        console.error("Failed to save category:", err)
+      );
+    }
+
+    const input: NewTransaction = {
+      amount: numericAmount,
+      category: finalCategory,
+      title,
+      tags,
+      lineItems,
+      date,
+      // A receipt uploaded in this session names the merchant
+      ...(receipt?.merchant && { merchant: receipt.merchant }),
+    };
+
+    if (isEditing) {
+      onSave?.(input, changeSource);
+      return;
+    }
+
     setIsSubmitting(true);
     try {
-      await addDoc(collection(db, "expenses"), {
-        amount: numericAmount,
-        category: finalCategory,
-        date: date.toISOString(),
-        userId: user.uid,
-        createdAt: serverTimestamp(),
-      });
+      await addTransaction(user.uid, "expense", input, { source: changeSource, actorName: actorName(user) });
 
       toast.success("Expense saved");
       setAmount("");
       setCategory("");
       setCustomCategory("");
+      setTitle("");
+      setTags([]);
+      setMatchedRule(null);
       setDate(new Date());
+      setFromReceipt(false);
+      setReceipt(null);
+      setLineItems([]);
       onAdded?.();
     } catch (err) {
       console.error("Save error:", err);
@@ -159,7 +203,7 @@ export default function AddExpenseForm({ onAdded }: AddExpenseFormProps) {
           <div className="bg-primary/10 rounded-full p-2 flex items-center justify-center">
             <Receipt size={18} className="text-primary" />
           </div>
-          <span>Add new expense</span>
+          <span>{isEditing ? "Edit expense" : "Add new expense"}</span>
         </CardTitle>
       </CardHeader>
       <CardContent className="overflow-auto pt-4">
@@ -182,23 +226,43 @@ export default function AddExpenseForm({ onAdded }: AddExpenseFormProps) {
             <IndianRupee className="absolute left-3 top-2.5 h-4 w-4 text-muted-foreground" />
           </div>
 
+          {/* Description */}
+          <div className="space-y-2">
+            <Label htmlFor="title" className="text-muted-foreground flex items-center gap-2">
+              <AlignLeft size={14} /> Description (optional)
+            </Label>
+            <Input
+              id="title"
+              value={title}
+              onChange={(e) => setTitle(e.target.value)}
+              onBlur={() => suggestFromRules(title, parseFloat(normalizeAmount(amount)))}
+              disabled={isSubmitting}
+              placeholder="e.g. Swiggy order"
+              className="bg-muted/50 text-foreground border focus:border-primary"
+            />
+          </div>
+
           {/* Category */}
           <div className="space-y-2">
             <Label htmlFor="category" className="text-muted-foreground flex items-center gap-2">
               <FolderIcon size={14} /> Category
             </Label>
-            <select
+            <CategorySelect
               id="category"
+              kind="expense"
               value={category}
-              onChange={(e) => setCategory(e.target.value)}
+              onChange={(value) => {
+                setCategory(value);
+                setMatchedRule(null);
+              }}
               disabled={isSubmitting}
-              className="w-full p-2 rounded-md bg-muted/50 text-foreground border border-input focus:border-primary"
-            >
-              <option value="">Select a category</option>
-              {CATEGORY_OPTIONS.map((c) => (
-                <option key={c} value={c}>{c}</option>
-              ))}
-            </select>
+            />
+            {matchedRule && (
+              <p className="text-xs text-muted-foreground">
+                Suggested by rule &quot;{matchedRule}&quot;
+                {tags.length > 0 && ` · tags: ${tags.join(", ")}`}
+              </p>
+            )}
           </div>
 
           {showCustomInput && (
@@ -265,6 +329,18 @@ export default function AddExpenseForm({ onAdded }: AddExpenseFormProps) {
                 Extracting data from receipt...
               </div>
             )}
+            {(receipt || lineItems.length > 0) && !isExtracting && (
+              <ReceiptSummary
+                receipt={receipt}
+                lineItems={lineItems}
+                onItemCategory={(index, value) =>
+                  setLineItems((items) =>
+                    items.map((item, i) => (i === index ? { ...item, category: value || undefined } : item))
+                  )
+                }
+                disabled={isSubmitting}
+              />
+            )}
           </div>
 
           <Button
@@ -272,10 +348,67 @@ export default function AddExpenseForm({ onAdded }: AddExpenseFormProps) {
             disabled={isSubmitting || isExtracting}
             className="w-full mt-2 bg-primary hover:bg-primary/90 text-white disabled:opacity-70"
           >
-            {isSubmitting ? "Saving..." : "Add expense"}
+            {isSubmitting ? "Saving..." : isEditing ? "Save changes" : "Add expense"}
           </Button>
         </form>
       </CardContent>
     </Card>
   );
-}
\ No newline at end of file
+}
+// What was read from the uploaded receipt, and the expense's line items with a
+// category picker each so one receipt can count towards several categories
+function ReceiptSummary({
+  receipt,
+  lineItems,
+  onItemCategory,
+  disabled,
+}: {
+  receipt: ReceiptExtraction | null;
+  lineItems: ReceiptLineItem[];
+  onItemCategory: (index: number, category: string) => void;
+  disabled?: boolean;
+}) {
+  const money = (value: number | null) => (value === null ? null : `${receipt?.currency ?? "INR"} ${value.toFixed(2)}`);
+  const totals = receipt
+    ? [
+        ["Subtotal", money(receipt.subtotal)],
+        ["Tax", money(receipt.tax)],
+        ["Tip", money(receipt.tip)],
+        ["Total", money(receipt.total)],
+        ["Paid by", receipt.paymentMethod],
+      ].filter((entry): entry is [string, string] => entry[1] !== null)
+    : [];
+
+  return (
+    <div className="rounded-md border bg-muted/30 p-3 text-xs text-muted-foreground space-y-2">
+      {receipt?.merchant && <p className="font-medium text-foreground">{receipt.merchant}</p>}
+      {lineItems.length > 0 && (
+        <ul className="space-y-1">
+          {lineItems.map((item, i) => (
+            <li key={i} className="grid grid-cols-[1fr_auto] items-center gap-x-2">
+              <span className="truncate">
+                {item.quantity !== null && item.quantity !== 1 && `${item.quantity} × `}
+                {item.description}
+              </span>
+              <span>{item.amount.toFixed(2)}</span>
+              <div className="col-span-2">
+                <CategorySelect
+                  id={`line-item-${i}`}
+                  kind="expense"
+                  value={item.category ?? ""}
+                  onChange={(value) => onItemCategory(i, value)}
+                  disabled={disabled}
+                  placeholder="Same as expense"
+                  allowCustom={false}
+                />
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+      {totals.length > 0 && (
+        <p>{totals.map(([label, value]) => `${label}: ${value}`).join(" · ")}</p>
+      )}
+    </div>
+  );
+}
@@ -13,9 +13,9 @@ import {
   Tooltip,
   CartesianGrid,
 } from "recharts";
-import { db } from "@/lib/firebase";
-import { collection, query, where, getDocs, Timestamp } from "firebase/firestore";
 import { useAuth } from "@/context/AuthContext";
+import { useTransactionsVersion } from "@/context/TransactionsContext";
+import { fetchTransactions, Transaction } from "@/lib/transactions";
 import dayjs from "dayjs";
 import { Skeleton } from "@/components/ui/skeleton";
 
@@ -24,33 +24,17 @@ interface MonthlyExpense {
   expense: number;
 }
 
-interface ExpenseData {
-  date: Timestamp | string | Date;
-  amount: number;
-}
-
 const MONTHS = [
   "Jan", "Feb", "Mar", "Apr", "May", "Jun",
   "Jul", "Aug", "Sep", "Oct", "Nov", "Dec",
 ];
 
-const parseDate = (raw: Timestamp | string | Date | undefined | null): Date | null => {
-  if (!raw) return null;
-  if (raw instanceof Timestamp) return raw.toDate();
-  if (typeof raw === "string") return new Date(raw);
-  if (raw instanceof Date) return raw;
-  return null;
-};
-
-const buildMonthlyExpenseData = (expenses: ExpenseData[]): MonthlyExpense[] => {
+const buildMonthlyExpenseData = (expenses: Transaction[]): MonthlyExpense[] => {
   const totals: Record<string, number> = {};
 
   expenses.forEach((expense) => {
-    const date = parseDate(expense.date);
-    if (!date) return;
-
-    const month = dayjs(date).format("MMM");
-    totals[month] = (totals[month] || 0) + Number(expense.amount || 0);
+    const month = dayjs(expense.date).format("MMM");
+    totals[month] = (totals[month] || 0) + expense.amount;
   });
 
   return MONTHS.map((month) => ({
@@ -61,6 +45,7 @@ const buildMonthlyExpenseData = (expenses: ExpenseData[]): MonthlyExpense[] => {
 
 export default function ExpenseChart({ refreshKey = 0 }: { refreshKey?: number }) {
   const { user } = useAuth();
+  const version = useTransactionsVersion();
   const [chartData, setChartData] = useState<MonthlyExpense[]>([]);
   const [loading, setLoading] = useState(true);
 
@@ -70,11 +55,9 @@ export default function ExpenseChart({ refreshKey = 0 }: { refreshKey?: number }
       setLoading(true);
 
       try {
-        const q = query(collection(db, "expenses"), where("userId", "==", user.uid));
-        const snapshot = await getDocs(q);
-        const rawExpenses: ExpenseData[] = snapshot.docs.map((doc) => doc.data() as ExpenseData);
+        const expenses = await fetchTransactions(user.uid, "expense");
 
-        const monthlyData = buildMonthlyExpenseData(rawExpenses);
+        const monthlyData = buildMonthlyExpenseData(expenses);
         setChartData(monthlyData);
       } catch (err) {
         console.error("Error fetching expenses:", err);
@@ -84,7 +67,7 @@ export default function ExpenseChart({ refreshKey = 0 }: { refreshKey?: number }
     };
 
     fetchMonthlyExpenses();
-  }, [user, refreshKey]);
+  }, [user, refreshKey, version]);
 
   return (
     <Card className="bg-primary/10 text-foreground shadow-sm hover:shadow transition-all duration-200 border border-primary/20 h-full overflow-hidden">
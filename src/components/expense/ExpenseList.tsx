@@ -6,30 +6,13 @@ import { useEffect, useState } from "react";
 import { Card, CardContent } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { ScrollArea } from "@/components/ui/scroll-area";
-import { db } from "@/lib/firebase";
-import { collection, query, where, orderBy, getDocs, Timestamp } from "firebase/firestore";
 import { useAuth } from "@/context/AuthContext";
+import { useTransactionsVersion } from "@/context/TransactionsContext";
+import { applyTransactionChange, fetchTransactions, Transaction } from "@/lib/transactions";
 import { Skeleton } from "@/components/ui/skeleton";
+import TransactionActions from "@/components/transactions/TransactionActions";
 
-interface Expense {
-  id: string;
-  category: string;
-  amount: number;
-  date: string; // ISO string format
-}
-
-const formatDate = (raw: Timestamp | string | number | undefined): string => {
-  if (!raw) return "Unknown Date";
-
-  let dateObj: Date | null = null;
-  if (raw instanceof Timestamp) {
-    dateObj = raw.toDate();
-  } else if (typeof raw === "string" || typeof raw === "number") {
-    dateObj = new Date(raw);
-  }
-
-  if (!dateObj || isNaN(dateObj.getTime())) return "Unknown Date";
-
+const formatDate = (dateObj: Date): string => {
   return dateObj.toLocaleDateString("en-IN", {
     weekday: "short",
     month: "short",
@@ -39,33 +22,16 @@ const formatDate = (raw: Timestamp | string | number | undefined): string => {
 
 export default function ExpenseList({ refreshKey = 0 }: { refreshKey?: number }) {
   const { user } = useAuth();
-  const [expenses, setExpenses] = useState<Expense[]>([]);
+  const version = useTransactionsVersion();
+  const [expenses, setExpenses] = useState<Transaction[]>([]);
   const [loading, setLoading] = useState(true);
 
   useEffect(() => {
     const fetchLatestExpenses = async () => {
       if (!user) return;
-      setLoading(true);
 
       try {
-        const q = query(
-          collection(db, "expenses"),
-          where("userId", "==", user.uid),
-          orderBy("date", "desc")
-        );
-        const snapshot = await getDocs(q);
-
-        const formatted: Expense[] = snapshot.docs.map((doc) => {
-          const data = doc.data();
-          return {
-            id: doc.id,
-            category: data.category || "Misc",
-            amount: Number(data.amount) || 0,
-            date: formatDate(data.date),
-          };
-        });
-
-        setExpenses(formatted);
+        setExpenses(await fetchTransactions(user.uid, "expense"));
       } catch (err) {
         console.error("Failed to fetch expenses:", err);
       } finally {
@@ -74,7 +40,7 @@ export default function ExpenseList({ refreshKey = 0 }: { refreshKey?: number })
     };
 
     fetchLatestExpenses();
-  }, [user, refreshKey]);
+  }, [user, refreshKey, version]);
 
   return (
     <Card className="bg-white text-foreground shadow-sm hover:shadow transition-all duration-200 border border-border h-full overflow-hidden">
@@ -92,21 +58,29 @@ export default function ExpenseList({ refreshKey = 0 }: { refreshKey?: number })
             </div>
           ) : expenses.length > 0 ? (
             <ul className="space-y-4">
-              {expenses.map(({ id, category, amount, date }) => (
+              {expenses.map((expense) => (
                 <li
-                  key={id}
+                  key={expense.id}
                   className="flex justify-between items-center bg-primary/5 px-4 py-3 rounded-lg hover:bg-primary/10 transition-all duration-200"
                 >
                   <div>
-                    <p className="text-sm font-medium">{category}</p>
-                    <p className="text-xs text-muted-foreground">{date}</p>
+                    <p className="text-sm font-medium">{expense.category}</p>
+                    <p className="text-xs text-muted-foreground">{formatDate(expense.date)}</p>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <Badge
+                      variant="outline"
+                      className="text-red-600 border-red-200 bg-red-50"
+                    >
+                      ₹{expense.amount}
+                    </Badge>
+                    <TransactionActions
+                      transaction={expense}
+                      onChange={(next) =>
+                        setExpenses((list) => applyTransactionChange(list, expense.id, next))
+                      }
+                    />
                   </div>
-                  <Badge
-                    variant="outline"
-                    className="text-red-600 border-red-200 bg-red-50"
-                  >
-                    ₹{amount}
-                  </Badge>
                 </li>
               ))}
             </ul>
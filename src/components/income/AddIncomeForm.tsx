@@ -8,39 +8,22 @@ import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Label } from "@/components/ui/label";
-import { CalendarIcon, IndianRupee, TrendingUp, Briefcase, FileIcon, Upload } from "lucide-react";
-import { addDoc, collection, serverTimestamp } from "firebase/firestore";
-import { db } from "@/lib/firebase";
+import { CalendarIcon, IndianRupee, TrendingUp, Briefcase, FileIcon, Upload, AlignLeft } from "lucide-react";
+import CategorySelect, { CUSTOM_CATEGORY } from "@/components/categories/CategorySelect";
 import { useAuth } from "@/context/AuthContext";
+import { ensureCategory } from "@/lib/categories";
+import { actorName, ChangeSource } from "@/lib/history";
+import { ReceiptExtraction, receiptDate, receiptText } from "@/lib/receipts";
+import { categorize } from "@/lib/rules";
+import { addTransaction, NewTransaction, Transaction } from "@/lib/transactions";
 import DatePicker from "react-datepicker";
 import "react-datepicker/dist/react-datepicker.css";
 
-// Constants
-const SOURCE_OPTIONS = [
-  "Salary",
-  "Freelancing",
-  "Investments Return",
-  "Business",
-  "Gift",
-  "Other",
-] as const;
-
 // Clean amount string
 const normalizeAmount = (raw: string): string => {
   return raw.replace(/(?<=\d),(?=\d)/g, "").trim();
 };
 
-// Detect source from raw OCR string
-const detectIncomeSource = (text: string): string => {
-  const lower = text.toLowerCase();
-  if (/(salary|payslip|ctc|net pay)/.test(lower)) return "Salary";
-  if (/(freelance|contract|gig)/.test(lower)) return "Freelancing";
-  if (/(dividend|interest|roi|return|capital gain)/.test(lower)) return "Investments Return";
-  if (/(business|invoice|sales|revenue)/.test(lower)) return "Business";
-  if (/(gift|present|donation)/.test(lower)) return "Gift";
-  return "Other";
-};
-
 // Safe JSON parse from API response
 const safeParseJson = async <T = unknown>(res: Response): Promise<T | null> => {
   const ct = res.headers.get("content-type") || "";
@@ -54,18 +37,52 @@ const safeParseJson = async <T = unknown>(res: Response): Promise<T | null> => {
 
 interface AddIncomeFormProps {
   onAdded?: () => void;
+  // Edit mode: prefill from `income` and hand the result to `onSave` instead of creating
+  income?: Transaction;
+  onSave?: (input: NewTransaction, source: ChangeSource) => void;
 }
 
-export default function AddIncomeForm({ onAdded }: AddIncomeFormProps) {
+export default function AddIncomeForm({ onAdded, income, onSave }: AddIncomeFormProps) {
   const { user } = useAuth();
-  const [amount, setAmount] = useState("");
-  const [source, setSource] = useState("");
+  const isEditing = !!income;
+  const [amount, setAmount] = useState(income ? String(income.amount) : "");
+  const [source, setSource] = useState(income?.category ?? "");
   const [customSource, setCustomSource] = useState("");
-  const [date, setDate] = useState<Date | null>(new Date());
+  const [title, setTitle] = useState(income?.title ?? "");
+  const [tags, setTags] = useState<string[]>(income?.tags ?? []);
+  // Name of the rule that picked the source, while the user hasn't overridden it
+  const [matchedRule, setMatchedRule] = useState<string | null>(null);
+  const [date, setDate] = useState<Date | null>(income?.date ?? new Date());
   const [isExtracting, setIsExtracting] = useState(false);
+  // Whether the current values were filled in from an uploaded receipt
+  const [fromReceipt, setFromReceipt] = useState(false);
+  const [receipt, setReceipt] = useState<ReceiptExtraction | null>(null);
   const [isSubmitting, setIsSubmitting] = useState(false);
 
-  const isCustomSource = source === "Other";
+  const isCustomSource = source === CUSTOM_CATEGORY;
+
+  // Runs the user's categorization rules over a description or payslip text;
+  // `replace` lets the rule's source win over one picked before (a new payslip)
+  const suggestFromRules = async (text: string, amountValue: number, replace = false) => {
+    if (!user || !text.trim()) return;
+
+    try {
+      const outcome = await categorize(user.uid, {
+        description: text,
+        amount: amountValue || 0,
+        direction: "credit",
+      });
+      if (outcome.matched.length === 0) return;
+
+      // A source the user picked by hand is never overwritten
+      if (outcome.category && (replace || !source || matchedRule)) setSource(outcome.category);
+      if (outcome.rename) setTitle(outcome.rename);
+      setTags(outcome.tags);
+      setMatchedRule(outcome.matched[0].name);
+    } catch (err) {
+      console.error("Rule evaluation failed:", err);
+    }
+  };
 
   // Upload handler for both image and PDF
   const handleFileUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
@@ -74,6 +91,8 @@ export default function AddIncomeForm({ onAdded }: AddIncomeFormProps) {
 
     setAmount("");
     setIsExtracting(true);
+    setSource("");
+    setCustomSource("");
 
     try {
       const reader = new FileReader();
@@ -88,8 +107,7 @@ export default function AddIncomeForm({ onAdded }: AddIncomeFormProps) {
 
         const data = await safeParseJson<{
           amount?: number;
-          source?: string;
-          modelRaw?: string;
+          receipt?: ReceiptExtraction;
         }>(res);
 
         if (!res.ok || !data) {
@@ -99,8 +117,11 @@ export default function AddIncomeForm({ onAdded }: AddIncomeFormProps) {
 
         if (data.amount != null) {
           setAmount(normalizeAmount(data.amount.toString()));
-          setSource(data.source || detectIncomeSource(data.modelRaw || ""));
-          setDate(new Date());
+          setDate((data.receipt && receiptDate(data.receipt)) ?? new Date());
+          setReceipt(data.receipt ?? null);
+          if (data.receipt?.merchant) setTitle(data.receipt.merchant);
+          setFromReceipt(true);
+          await suggestFromRules(data.receipt ? receiptText(data.receipt) : "", data.amount, true);
           toast.success("Amount extracted");
         } else {
           toast.warning("Amount not detected. Enter manually.");
@@ -137,21 +158,44 @@ export default function AddIncomeForm({ onAdded }: AddIncomeFormProps) {
       return;
     }
 
+    const changeSource: ChangeSource = fromReceipt ? "receipt" : "manual";
+
+    // Names typed into "Other" become income sources for next time
+    if (isCustomSource) {
+      ensureCategory(user.uid, "income", finalSource).catch((err) =>
+        console.error("Failed to save income source:", err)
+      );
+    }
+
+    const input: NewTransaction = {
+      amount: parsedAmount,
+      category: finalSource,
+      title,
+      tags,
+      date,
+      // A payslip uploaded in this session names the employer
+      ...(receipt?.merchant && { merchant: receipt.merchant }),
+    };
+
+    if (isEditing) {
+      onSave?.(input, changeSource);
+      return;
+    }
+
     setIsSubmitting(true);
     try {
-      await addDoc(collection(db, "incomes"), {
-        amount: parsedAmount,
-        source: finalSource,
-        date: date.toISOString(),
-        userId: user.uid,
-        createdAt: serverTimestamp(),
-      });
+      await addTransaction(user.uid, "income", input, { source: changeSource, actorName: actorName(user) });
 
       toast.success("Income saved");
       setAmount("");
       setSource("");
       setCustomSource("");
+      setTitle("");
+      setTags([]);
+      setMatchedRule(null);
       setDate(new Date());
+      setFromReceipt(false);
+      setReceipt(null);
       onAdded?.();
     } catch (err) {
       console.error("Add income failed:", err);
@@ -168,7 +212,7 @@ export default function AddIncomeForm({ onAdded }: AddIncomeFormProps) {
           <div className="bg-primary/10 rounded-full p-2 flex items-center justify-center">
             <TrendingUp size={18} className="text-primary" />
           </div>
-          <span>Add new income</span>
+          <span>{isEditing ? "Edit income" : "Add new income"}</span>
         </CardTitle>
       </CardHeader>
       <CardContent className="overflow-auto pt-4">
@@ -193,23 +237,44 @@ export default function AddIncomeForm({ onAdded }: AddIncomeFormProps) {
             </div>
           </div>
 
+          {/* Description */}
+          <div className="space-y-2">
+            <Label htmlFor="title" className="text-muted-foreground flex items-center gap-2">
+              <AlignLeft size={14} /> Description (optional)
+            </Label>
+            <Input
+              id="title"
+              value={title}
+              onChange={(e) => setTitle(e.target.value)}
+              onBlur={() => suggestFromRules(title, parseFloat(normalizeAmount(amount)))}
+              disabled={isSubmitting}
+              placeholder="e.g. July salary"
+              className="bg-muted/50 text-foreground border focus:border-primary"
+            />
+          </div>
+
           {/* Source */}
           <div className="space-y-2">
             <Label htmlFor="source" className="text-muted-foreground flex items-center gap-2">
               <Briefcase size={14} /> Source
             </Label>
-            <select
+            <CategorySelect
               id="source"
+              kind="income"
               value={source}
-              onChange={(e) => setSource(e.target.value)}
+              onChange={(value) => {
+                setSource(value);
+                setMatchedRule(null);
+              }}
               disabled={isSubmitting}
-              className="w-full p-2 rounded-md bg-muted/50 text-foreground border border-input focus:border-primary"
-            >
-              <option value="">Select source</option>
-              {SOURCE_OPTIONS.map((option) => (
-                <option key={option} value={option}>{option}</option>
-              ))}
-            </select>
+              placeholder="Select source"
+            />
+            {matchedRule && (
+              <p className="text-xs text-muted-foreground">
+                Suggested by rule &quot;{matchedRule}&quot;
+                {tags.length > 0 && ` · tags: ${tags.join(", ")}`}
+              </p>
+            )}
 
             {isCustomSource && (
               <div className="space-y-2">
@@ -283,7 +348,7 @@ export default function AddIncomeForm({ onAdded }: AddIncomeFormProps) {
             disabled={isSubmitting || isExtracting}
             className="w-full mt-2 bg-primary hover:bg-primary/90 text-white disabled:opacity-70"
           >
-            {isSubmitting ? "Saving..." : "Add income"}
+            {isSubmitting ? "Saving..." : isEditing ? "Save changes" : "Add income"}
           </Button>
         </form>
       </CardContent>
@@ -13,21 +13,16 @@ import {
   Tooltip,
   CartesianGrid,
 } from "recharts";
-import { db } from "@/lib/firebase";
-import { collection, query, where, getDocs, Timestamp } from "firebase/firestore";
 import { useAuth } from "@/context/AuthContext";
+import { useTransactionsVersion } from "@/context/TransactionsContext";
 import { Skeleton } from "@/components/ui/skeleton";
-import { parseISO, isValid, format } from "date-fns";
+import { format } from "date-fns";
+import { fetchTransactions, Transaction } from "@/lib/transactions";
 
 interface IncomeChartProps {
   refreshKey?: number;
 }
 
-interface IncomeRecord {
-  amount: number;
-  date: Timestamp | string | Date | null | undefined;
-}
-
 interface MonthlyIncome {
   name: string; // Month short name (Jan, Feb, ...)
   income: number;
@@ -38,31 +33,15 @@ const MONTHS_ORDER = [
   "Jul", "Aug", "Sep", "Oct", "Nov", "Dec",
 ];
 
-/**
- * Normalizes a raw Firestore date field into a valid Date object.
- */
-function parseIncomeDate(raw: IncomeRecord["date"]): Date | null {
-  if (!raw) return null;
-  if (raw instanceof Timestamp) return raw.toDate();
-  if (typeof raw === "string") return parseISO(raw);
-  if (raw instanceof Date) return raw;
-  return null;
-}
-
 /**
  * Aggregates income amounts by month for chart display.
  */
-function buildMonthlyIncomeData(incomes: IncomeRecord[]): MonthlyIncome[] {
+function buildMonthlyIncomeData(incomes: Transaction[]): MonthlyIncome[] {
   const monthly: Record<string, number> = {};
 
   for (const income of incomes) {
-    const date = parseIncomeDate(income.date);
-    if (!date || !isValid(date)) continue;
-
-    const month = format(date, "MMM");
-    const amount = Number(income.amount || 0);
-
-    monthly[month] = (monthly[month] || 0) + amount;
+    const month = format(income.date, "MMM");
+    monthly[month] = (monthly[month] || 0) + income.amount;
   }
 
   return MONTHS_ORDER.map((month) => ({
@@ -73,6 +52,7 @@ function buildMonthlyIncomeData(incomes: IncomeRecord[]): MonthlyIncome[] {
 
 export default function IncomeChart({ refreshKey = 0 }: IncomeChartProps) {
   const { user } = useAuth();
+  const version = useTransactionsVersion();
   const [data, setData] = useState<MonthlyIncome[]>([]);
   const [loading, setLoading] = useState(true);
 
@@ -82,15 +62,9 @@ export default function IncomeChart({ refreshKey = 0 }: IncomeChartProps) {
       setLoading(true);
 
       try {
-        const q = query(collection(db, "incomes"), where("userId", "==", user.uid));
-        const snapshot = await getDocs(q);
-
-        const rawIncomes: IncomeRecord[] = snapshot.docs.map((doc) => ({
-          amount: Number(doc.data().amount || 0),
-          date: doc.data().date,
-        }));
+        const incomes = await fetchTransactions(user.uid, "income");
 
-        const monthlyData = buildMonthlyIncomeData(rawIncomes);
+        const monthlyData = buildMonthlyIncomeData(incomes);
         setData(monthlyData);
       } catch (err) {
         console.error("Failed to fetch income chart:", err);
@@ -100,7 +74,7 @@ export default function IncomeChart({ refreshKey = 0 }: IncomeChartProps) {
     };
 
     fetchIncome();
-  }, [user, refreshKey]);
+  }, [user, refreshKey, version]);
 
   return (
     <Card className="bg-primary/10 text-foreground shadow-sm hover:shadow transition-all duration-200 border border-primary/20 h-full overflow-hidden">
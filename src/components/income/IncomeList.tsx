@@ -5,82 +5,31 @@ import { useEffect, useState } from "react";
 import { Card, CardContent } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { ScrollArea } from "@/components/ui/scroll-area";
-import { db } from "@/lib/firebase";
-import {
-  collection,
-  query,
-  where,
-  orderBy,
-  getDocs,
-  Timestamp,
-} from "firebase/firestore";
 import { useAuth } from "@/context/AuthContext";
+import { useTransactionsVersion } from "@/context/TransactionsContext";
+import { applyTransactionChange, fetchTransactions, Transaction } from "@/lib/transactions";
 import { Skeleton } from "@/components/ui/skeleton";
+import TransactionActions from "@/components/transactions/TransactionActions";
 
-interface Income {
-  id: string;
-  source: string;
-  amount: number;
-  category?: string;
-  date: string; // ISO format
-}
-
-const formatDate = (raw: Timestamp | string | undefined): string => {
-  if (!raw) return "Unknown Date";
-  let dateObj: Date;
-
-  if (raw instanceof Timestamp) {
-    dateObj = raw.toDate();
-  } else if (typeof raw === "string") {
-    dateObj = new Date(raw);
-  } else {
-    return "Unknown Date";
-  }
-
-  return isNaN(dateObj.getTime())
-    ? "Unknown Date"
-    : dateObj.toLocaleDateString("en-IN", {
-        weekday: "short",
-        month: "short",
-        day: "numeric",
-      });
-};
+const formatDate = (dateObj: Date): string =>
+  dateObj.toLocaleDateString("en-IN", {
+    weekday: "short",
+    month: "short",
+    day: "numeric",
+  });
 
 export default function IncomeList({ refreshKey = 0 }: { refreshKey?: number }) {
   const { user, loading: authLoading } = useAuth();
-  const [incomes, setIncomes] = useState<Income[]>([]);
+  const version = useTransactionsVersion();
+  const [incomes, setIncomes] = useState<Transaction[]>([]);
   const [loading, setLoading] = useState(true);
 
   useEffect(() => {
     if (authLoading || !user) return;
 
     const fetchIncomes = async () => {
-      setLoading(true);
-
       try {
-        const q = query(
-          collection(db, "incomes"),
-          where("userId", "==", user.uid),
-          orderBy("createdAt", "desc")
-        );
-        const snapshot = await getDocs(q);
-
-        const data: Income[] = snapshot.docs.map((doc) => {
-          const d = doc.data();
-          return {
-            id: doc.id,
-            source: d.source || "Unknown",
-            category: d.category,
-            amount: Number(d.amount) || 0,
-            date: typeof d.date === "string"
-              ? d.date
-              : d.date instanceof Timestamp
-              ? d.date.toDate().toISOString()
-              : "",
-          };
-        });
-
-        setIncomes(data);
+        setIncomes(await fetchTransactions(user.uid, "income"));
       } catch (error) {
         console.error("Error fetching incomes:", error);
       } finally {
@@ -89,7 +38,7 @@ export default function IncomeList({ refreshKey = 0 }: { refreshKey?: number })
     };
 
     fetchIncomes();
-  }, [user, authLoading, refreshKey]);
+  }, [user, authLoading, refreshKey, version]);
 
   return (
     <Card className="bg-white text-foreground shadow-sm hover:shadow transition-all duration-200 border border-border h-full overflow-hidden">
@@ -107,25 +56,33 @@ export default function IncomeList({ refreshKey = 0 }: { refreshKey?: number })
             </div>
           ) : incomes.length > 0 ? (
             <ul className="space-y-4">
-              {incomes.map(({ id, source, category, amount, date }) => (
+              {incomes.map((income) => (
                 <li
-                  key={id}
+                  key={income.id}
                   className="flex justify-between items-center bg-primary/5 px-4 py-3 rounded-lg hover:bg-primary/10 transition-all duration-200"
                 >
                   <div>
                     <p className="text-sm font-medium">
-                      {source || category || "Misc"}
+                      {income.category || "Misc"}
                     </p>
                     <p className="text-xs text-muted-foreground">
-                      {formatDate(date)}
+                      {formatDate(income.date)}
                     </p>
                   </div>
-                  <Badge
-                    variant="outline"
-                    className="text-accent border-accent/20 bg-accent/10"
-                  >
-                    ₹{amount}
-                  </Badge>
+                  <div className="flex items-center gap-2">
+                    <Badge
+                      variant="outline"
+                      className="text-accent border-accent/20 bg-accent/10"
+                    >
+                      ₹{income.amount}
+                    </Badge>
+                    <TransactionActions
+                      transaction={income}
+                      onChange={(next) =>
+                        setIncomes((list) => applyTransactionChange(list, income.id, next))
+                      }
+                    />
+                  </div>
                 </li>
               ))}
             </ul>
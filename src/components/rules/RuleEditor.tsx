@@ -0,0 +1,257 @@
+// RuleEditor.tsx — add/edit dialog for a categorization rule, with a history preview
+
+"use client";
+
+import { useState } from "react";
+import { toast } from "sonner";
+import { FlaskConical } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useAuth } from "@/context/AuthContext";
+import { useCategories } from "@/context/CategoriesContext";
+import {
+  NewRule,
+  previewRule,
+  Rule,
+  RuleDirection,
+  RuleField,
+  RuleOperator,
+  validateRule,
+} from "@/lib/rules";
+import { fetchTransactions, Transaction } from "@/lib/transactions";
+
+const selectClass =
+  "w-full p-2 rounded-md bg-muted/50 text-foreground border border-input focus:border-primary";
+const inputClass = "bg-muted/50 text-foreground border focus:border-primary";
+
+const PREVIEW_LIMIT = 10;
+
+interface RuleEditorProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  rule?: Rule;
+  // Priority given to new rules (after all existing ones)
+  nextPriority: number;
+  onSubmit: (input: NewRule) => void;
+}
+
+const parseAmount = (value: string) => (value.trim() === "" ? null : Number(value));
+
+export default function RuleEditor({ open, onOpenChange, rule, nextPriority, onSubmit }: RuleEditorProps) {
+  const { user } = useAuth();
+  const { categories } = useCategories();
+  const [name, setName] = useState(rule?.name ?? "");
+  const [field, setField] = useState<RuleField>(rule?.field ?? "description");
+  const [operator, setOperator] = useState<RuleOperator>(rule?.operator ?? "contains");
+  const [pattern, setPattern] = useState(rule?.pattern ?? "");
+  const [direction, setDirection] = useState<RuleDirection>(rule?.direction ?? "any");
+  const [minAmount, setMinAmount] = useState(rule?.minAmount?.toString() ?? "");
+  const [maxAmount, setMaxAmount] = useState(rule?.maxAmount?.toString() ?? "");
+  const [category, setCategory] = useState(rule?.category ?? "");
+  const [tags, setTags] = useState(rule?.tags.join(", ") ?? "");
+  const [rename, setRename] = useState(rule?.rename ?? "");
+  const [preview, setPreview] = useState<Transaction[] | null>(null);
+  const [testing, setTesting] = useState(false);
+
+  const buildInput = (): NewRule => ({
+    name,
+    priority: rule?.priority ?? nextPriority,
+    enabled: rule?.enabled ?? true,
+    field,
+    operator,
+    pattern,
+    minAmount: parseAmount(minAmount),
+    maxAmount: parseAmount(maxAmount),
+    direction,
+    category: category || null,
+    tags: tags.split(","),
+    rename: rename || null,
+  });
+
+  // Category suggestions follow the direction: sources for credits, categories for debits
+  const suggestions = categories.filter(
+    (c) => direction === "any" || c.kind === (direction === "credit" ? "income" : "expense")
+  );
+
+  const handleTest = async () => {
+    if (!user) return toast.error("Login required");
+
+    setTesting(true);
+    try {
+      const draft = validateRule(buildInput());
+      const [incomes, expenses] = await Promise.all([
+        fetchTransactions(user.uid, "income"),
+        fetchTransactions(user.uid, "expense"),
+      ]);
+      setPreview(previewRule({ ...draft, id: rule?.id ?? "", userId: user.uid }, [...incomes, ...expenses]));
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Failed to test rule");
+    } finally {
+      setTesting(false);
+    }
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    onSubmit(buildInput());
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="bg-white text-black max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{rule ? "Edit rule" : "New rule"}</DialogTitle>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="rule-name" className="text-muted-foreground">Name</Label>
+            <Input
+              id="rule-name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="e.g. Fuel stations"
+              className={inputClass}
+            />
+          </div>
+
+          {/* Conditions */}
+          <fieldset className="space-y-2">
+            <legend className="text-sm font-semibold mb-2">When</legend>
+            <div className="grid grid-cols-2 gap-2">
+              <select
+                aria-label="Field"
+                value={field}
+                onChange={(e) => setField(e.target.value as RuleField)}
+                className={selectClass}
+              >
+                <option value="description">Description</option>
+                <option value="merchant">Merchant</option>
+              </select>
+              <select
+                aria-label="Operator"
+                value={operator}
+                onChange={(e) => setOperator(e.target.value as RuleOperator)}
+                className={selectClass}
+              >
+                <option value="contains">contains</option>
+                <option value="regex">matches regex</option>
+              </select>
+            </div>
+            <Input
+              aria-label="Pattern"
+              value={pattern}
+              onChange={(e) => setPattern(e.target.value)}
+              placeholder={operator === "regex" ? "e.g. hpcl|iocl|bharat petroleum" : "e.g. petrol"}
+              className={inputClass}
+            />
+            <div className="grid grid-cols-3 gap-2">
+              <select
+                aria-label="Direction"
+                value={direction}
+                onChange={(e) => setDirection(e.target.value as RuleDirection)}
+                className={selectClass}
+              >
+                <option value="any">Credit or debit</option>
+                <option value="debit">Debit (expense)</option>
+                <option value="credit">Credit (income)</option>
+              </select>
+              <Input
+                aria-label="Minimum amount"
+                type="number"
+                value={minAmount}
+                onChange={(e) => setMinAmount(e.target.value)}
+                placeholder="Min ₹"
+                className={inputClass}
+              />
+              <Input
+                aria-label="Maximum amount"
+                type="number"
+                value={maxAmount}
+                onChange={(e) => setMaxAmount(e.target.value)}
+                placeholder="Max ₹"
+                className={inputClass}
+              />
+            </div>
+          </fieldset>
+
+          {/* Actions */}
+          <fieldset className="space-y-2">
+            <legend className="text-sm font-semibold mb-2">Then</legend>
+            <Input
+              aria-label="Category"
+              list="rule-categories"
+              value={category}
+              onChange={(e) => setCategory(e.target.value)}
+              placeholder="Set category or source"
+              className={inputClass}
+            />
+            <datalist id="rule-categories">
+              {suggestions.map((c) => (
+                <option key={c.id} value={c.name} />
+              ))}
+            </datalist>
+            <Input
+              aria-label="Tags"
+              value={tags}
+              onChange={(e) => setTags(e.target.value)}
+              placeholder="Add tags (comma separated)"
+              className={inputClass}
+            />
+            <Input
+              aria-label="Rename"
+              value={rename}
+              onChange={(e) => setRename(e.target.value)}
+              placeholder="Rename description to"
+              className={inputClass}
+            />
+          </fieldset>
+
+          {/* History preview */}
+          <div className="space-y-2">
+            <Button type="button" variant="outline" onClick={handleTest} disabled={testing}>
+              <FlaskConical className="w-4 h-4 mr-2" />
+              {testing ? "Testing..." : "Test against my history"}
+            </Button>
+            {preview && (
+              <div className="text-sm bg-muted/50 rounded-md p-3 space-y-1">
+                <p className="font-medium">
+                  Matches {preview.length} existing transaction{preview.length === 1 ? "" : "s"}
+                </p>
+                {preview.slice(0, PREVIEW_LIMIT).map((t) => (
+                  <p key={t.id} className="text-xs text-muted-foreground">
+                    {t.date.toLocaleDateString("en-IN")} · {t.title || "(no description)"} · ₹
+                    {t.amount.toFixed(2)} · {t.category}
+                    {category && category !== t.category && ` → ${category}`}
+                  </p>
+                ))}
+                {preview.length > PREVIEW_LIMIT && (
+                  <p className="text-xs text-muted-foreground">
+                    …and {preview.length - PREVIEW_LIMIT} more
+                  </p>
+                )}
+              </div>
+            )}
+          </div>
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" className="bg-primary hover:bg-primary/90 text-white">
+              {rule ? "Save changes" : "Add rule"}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,126 @@
+// SplitTransactionForm.tsx — divides one transaction's amount between categories
+
+"use client";
+
+import { useState } from "react";
+import { Plus, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import CategorySelect from "@/components/categories/CategorySelect";
+import { Transaction, TransactionSplit } from "@/lib/transactions";
+
+interface SplitTransactionFormProps {
+  transaction: Transaction;
+  // Called with the new parts, or undefined to remove the split
+  onSave: (splits: TransactionSplit[] | undefined) => void;
+  onCancel: () => void;
+}
+
+interface SplitDraft {
+  category: string;
+  amount: string;
+}
+
+const toCents = (value: string) => Math.round((parseFloat(value) || 0) * 100);
+
+export default function SplitTransactionForm({ transaction, onSave, onCancel }: SplitTransactionFormProps) {
+  // A new split starts as the whole amount in the current category plus an empty part
+  const [parts, setParts] = useState<SplitDraft[]>(() =>
+    transaction.splits
+      ? transaction.splits.map((split) => ({ category: split.category, amount: split.amount.toFixed(2) }))
+      : [
+          { category: transaction.category, amount: transaction.amount.toFixed(2) },
+          { category: "", amount: "" },
+        ]
+  );
+
+  const remaining = Math.round(transaction.amount * 100) - parts.reduce((sum, part) => sum + toCents(part.amount), 0);
+  const complete = parts.every((part) => part.category && toCents(part.amount) > 0);
+  const valid = parts.length >= 2 && complete && remaining === 0;
+
+  const updatePart = (index: number, change: Partial<SplitDraft>) =>
+    setParts((current) => current.map((part, i) => (i === index ? { ...part, ...change } : part)));
+
+  const handleSave = () => {
+    if (!valid) return;
+    onSave(parts.map((part) => ({ category: part.category, amount: toCents(part.amount) / 100 })));
+  };
+
+  return (
+    <div className="space-y-3">
+      {parts.map((part, i) => (
+        <div key={i} className="flex items-center gap-2">
+          <div className="flex-1">
+            <CategorySelect
+              id={`split-category-${i}`}
+              kind={transaction.kind}
+              value={part.category}
+              onChange={(category) => updatePart(i, { category })}
+              allowCustom={false}
+            />
+          </div>
+          <Input
+            type="number"
+            inputMode="decimal"
+            value={part.amount}
+            onChange={(e) => updatePart(i, { amount: e.target.value })}
+            placeholder="0.00"
+            className="w-28"
+            aria-label={`Amount of part ${i + 1}`}
+          />
+          <Button
+            type="button"
+            variant="ghost"
+            size="icon"
+            className="h-8 w-8 text-muted-foreground"
+            onClick={() => setParts((current) => current.filter((_, j) => j !== i))}
+            disabled={parts.length <= 2}
+            aria-label={`Remove part ${i + 1}`}
+          >
+            <X size={14} />
+          </Button>
+        </div>
+      ))}
+
+      <div className="flex items-center justify-between text-sm">
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          onClick={() =>
+            setParts((current) => [
+              ...current,
+              // The new part takes whatever is left unassigned
+              { category: "", amount: remaining > 0 ? (remaining / 100).toFixed(2) : "" },
+            ])
+          }
+        >
+          <Plus size={14} /> Add part
+        </Button>
+        <span className={remaining === 0 ? "text-muted-foreground" : "text-red-600"}>
+          {remaining === 0
+            ? `Adds up to ₹${transaction.amount.toFixed(2)}`
+            : `₹${(Math.abs(remaining) / 100).toFixed(2)} ${remaining > 0 ? "left to assign" : "over the total"}`}
+        </span>
+      </div>
+
+      <div className="flex justify-between gap-2 pt-2">
+        {transaction.splits ? (
+          <Button type="button" variant="outline" onClick={() => onSave(undefined)}>
+            Remove split
+          </Button>
+        ) : (
+          <span />
+        )}
+        <div className="flex gap-2">
+          <Button type="button" variant="outline" onClick={onCancel}>
+            Cancel
+          </Button>
+          <Button type="button" onClick={handleSave} disabled={!valid}>
+            Save split
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
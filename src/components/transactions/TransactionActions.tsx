@@ -0,0 +1,222 @@
+// TransactionActions.tsx — edit/delete controls shared by every transaction list
+
+"use client";
+
+import { useState } from "react";
+import { toast } from "sonner";
+import { History, Pencil, Split, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import AddExpenseForm from "@/components/expense/AddExpenseForm";
+import AddIncomeForm from "@/components/income/AddIncomeForm";
+import SplitTransactionForm from "@/components/transactions/SplitTransactionForm";
+import TransactionHistory from "@/components/transactions/TransactionHistory";
+import { useAuth } from "@/context/AuthContext";
+import { actorName, ChangeSource } from "@/lib/history";
+import {
+  deleteTransaction,
+  NewTransaction,
+  restoreTransaction,
+  Transaction,
+  TransactionSplit,
+  TRASH_RETENTION_DAYS,
+  updateTransaction,
+} from "@/lib/transactions";
+
+interface TransactionActionsProps {
+  transaction: Transaction;
+  // Called optimistically with the edited transaction (or null once deleted),
+  // then again with the original if the write fails.
+  onChange: (next: Transaction | null) => void;
+}
+
+export default function TransactionActions({ transaction, onChange }: TransactionActionsProps) {
+  const { user } = useAuth();
+  const [editOpen, setEditOpen] = useState(false);
+  const [confirmOpen, setConfirmOpen] = useState(false);
+  const [historyOpen, setHistoryOpen] = useState(false);
+  const [splitOpen, setSplitOpen] = useState(false);
+
+  const noun = transaction.kind === "income" ? "Income" : "Expense";
+  const label = noun.toLowerCase();
+
+  const saveChanges = async (next: Transaction, source: ChangeSource, message: string) => {
+    if (!user) return toast.error("Login required");
+
+    setEditOpen(false);
+    setSplitOpen(false);
+    onChange(next);
+
+    try {
+      await updateTransaction(user.uid, transaction.kind, transaction.id, next, {
+        source,
+        actorName: actorName(user),
+      });
+      toast.success(message);
+    } catch (err) {
+      console.error("Update error:", err);
+      onChange(transaction);
+      toast.error(`Failed to update ${label}`);
+    }
+  };
+
+  const handleSave = (input: NewTransaction, source: ChangeSource) => {
+    // Fields the form doesn't show (merchant, account, ...) carry over unchanged
+    const next = { ...transaction, ...input };
+    // A split of the old amount no longer adds up to the new one
+    const dropSplit = !!next.splits && next.amount !== transaction.amount;
+    if (dropSplit) next.splits = undefined;
+    return saveChanges(next, source, dropSplit ? `${noun} updated; its split was removed` : `${noun} updated`);
+  };
+
+  const handleSplit = (splits: TransactionSplit[] | undefined) =>
+    saveChanges({ ...transaction, splits }, "manual", splits ? `${noun} split` : "Split removed");
+
+  const handleDelete = async () => {
+    if (!user) return toast.error("Login required");
+
+    setConfirmOpen(false);
+    onChange(null);
+
+    try {
+      await deleteTransaction(user.uid, transaction.kind, transaction.id, {
+        actorName: actorName(user),
+      });
+      toast.success(`${noun} moved to trash`, {
+        action: { label: "Undo", onClick: () => handleUndo() },
+      });
+    } catch (err) {
+      console.error("Delete error:", err);
+      onChange(transaction);
+      toast.error(`Failed to delete ${label}`);
+    }
+  };
+
+  const handleUndo = async () => {
+    if (!user) return;
+    onChange(transaction);
+
+    try {
+      await restoreTransaction(user.uid, transaction.kind, transaction.id, {
+        actorName: actorName(user),
+      });
+      toast.success(`${noun} restored`);
+    } catch (err) {
+      console.error("Restore error:", err);
+      onChange(null);
+      toast.error(`Failed to restore ${label}`);
+    }
+  };
+
+  return (
+    <div className="flex items-center gap-1">
+      <Button
+        variant="ghost"
+        size="icon"
+        className="h-7 w-7 text-muted-foreground hover:text-primary"
+        onClick={() => setHistoryOpen(true)}
+        aria-label={`View ${label} history`}
+      >
+        <History size={14} />
+      </Button>
+      <Button
+        variant="ghost"
+        size="icon"
+        className="h-7 w-7 text-muted-foreground hover:text-primary"
+        onClick={() => setEditOpen(true)}
+        aria-label={`Edit ${label}`}
+      >
+        <Pencil size={14} />
+      </Button>
+      <Button
+        variant="ghost"
+        size="icon"
+        className="h-7 w-7 text-muted-foreground hover:text-primary"
+        onClick={() => setSplitOpen(true)}
+        aria-label={`Split ${label}`}
+      >
+        <Split size={14} />
+      </Button>
+      <Button
+        variant="ghost"
+        size="icon"
+        className="h-7 w-7 text-muted-foreground hover:text-red-600"
+        onClick={() => setConfirmOpen(true)}
+        aria-label={`Delete ${label}`}
+      >
+        <Trash2 size={14} />
+      </Button>
+
+      {/* Edit dialog — reuses the add form in edit mode */}
+      <Dialog open={editOpen} onOpenChange={setEditOpen}>
+        <DialogContent className="p-0 border-none bg-transparent shadow-none text-black">
+          <DialogTitle className="sr-only">Edit {label}</DialogTitle>
+          {transaction.kind === "income" ? (
+            <AddIncomeForm income={transaction} onSave={handleSave} />
+          ) : (
+            <AddExpenseForm expense={transaction} onSave={handleSave} />
+          )}
+        </DialogContent>
+      </Dialog>
+
+      {/* Split across categories */}
+      <Dialog open={splitOpen} onOpenChange={setSplitOpen}>
+        <DialogContent className="bg-white text-black">
+          <DialogHeader>
+            <DialogTitle>Split this {label}</DialogTitle>
+            <DialogDescription>
+              Divide ₹{transaction.amount.toFixed(2)} between {transaction.kind === "income" ? "sources" : "categories"};
+              the parts must add up to the total.
+            </DialogDescription>
+          </DialogHeader>
+          {splitOpen && (
+            <SplitTransactionForm
+              transaction={transaction}
+              onSave={handleSplit}
+              onCancel={() => setSplitOpen(false)}
+            />
+          )}
+        </DialogContent>
+      </Dialog>
+
+      {/* Detail view with change history */}
+      <Dialog open={historyOpen} onOpenChange={setHistoryOpen}>
+        <DialogContent className="bg-white text-black max-h-[85vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{noun} details</DialogTitle>
+          </DialogHeader>
+          {historyOpen && <TransactionHistory transaction={transaction} />}
+        </DialogContent>
+      </Dialog>
+
+      {/* Delete confirmation */}
+      <Dialog open={confirmOpen} onOpenChange={setConfirmOpen}>
+        <DialogContent className="bg-white text-black">
+          <DialogHeader>
+            <DialogTitle>Delete this {label}?</DialogTitle>
+            <DialogDescription>
+              ₹{transaction.amount.toFixed(2)} · {transaction.category} ·{" "}
+              {transaction.date.toLocaleDateString("en-IN")}. It stays in the trash for{" "}
+              {TRASH_RETENTION_DAYS} days.
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setConfirmOpen(false)}>
+              Cancel
+            </Button>
+            <Button className="bg-red-600 hover:bg-red-700 text-white" onClick={handleDelete}>
+              Delete
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
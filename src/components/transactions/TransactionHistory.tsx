@@ -0,0 +1,187 @@
+// TransactionHistory.tsx — detail view with the audit-trail timeline of one transaction
+
+"use client";
+
+import { useEffect, useState } from "react";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import { useAuth } from "@/context/AuthContext";
+import {
+  ChangeAction,
+  ChangeSource,
+  fetchTransactionHistory,
+  TransactionChange,
+} from "@/lib/history";
+import type { ReceiptLineItem } from "@/lib/receipts";
+import { Transaction, TransactionSplit } from "@/lib/transactions";
+
+const ACTION_LABELS: Record<ChangeAction, string> = {
+  create: "Created",
+  update: "Edited",
+  delete: "Moved to trash",
+  restore: "Restored",
+};
+
+const SOURCE_LABELS: Record<ChangeSource, string> = {
+  manual: "Manual entry",
+  receipt: "Receipt extraction",
+  import: "Statement import",
+};
+
+// Field names as shown in the timeline, where they differ from the stored name
+const FIELD_LABELS: Record<string, string> = {
+  lineItems: "Line items",
+};
+
+const isLineItem = (value: unknown): value is ReceiptLineItem =>
+  !!value && typeof value === "object" && "description" in value && "amount" in value;
+
+// Exactly { category, amount }; a line item assigned to a category has those keys too
+const isSplit = (value: unknown): value is TransactionSplit =>
+  !!value &&
+  typeof value === "object" &&
+  Object.keys(value).length === 2 &&
+  "category" in value &&
+  "amount" in value;
+
+const formatValue = (value: unknown): string => {
+  if (value === null || value === undefined || value === "") return "—";
+  if (Array.isArray(value)) return value.length ? value.map(formatValue).join(", ") : "—";
+  if (isLineItem(value))
+    return `${value.description}${value.category ? ` (${value.category})` : ""} ₹${value.amount.toFixed(2)}`;
+  if (isSplit(value)) return `${value.category} ₹${value.amount.toFixed(2)}`;
+  if (value instanceof Date) return value.toLocaleDateString("en-IN");
+  if (typeof value === "number") return `₹${value.toFixed(2)}`;
+  return String(value);
+};
+
+export default function TransactionHistory({ transaction }: { transaction: Transaction }) {
+  const { user } = useAuth();
+  const [entries, setEntries] = useState<TransactionChange[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    if (!user) return;
+
+    const loadHistory = async () => {
+      try {
+        setEntries(await fetchTransactionHistory(user.uid, transaction.id));
+      } catch (err) {
+        console.error("Failed to fetch transaction history:", err);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadHistory();
+  }, [user, transaction.id]);
+
+  return (
+    <div className="space-y-4">
+      {/* Current values */}
+      <div className="grid grid-cols-2 gap-2 text-sm bg-muted/50 rounded-md p-3">
+        <span className="text-muted-foreground">Amount</span>
+        <span className="font-medium">₹{transaction.amount.toFixed(2)}</span>
+        <span className="text-muted-foreground">
+          {transaction.kind === "income" ? "Source" : "Category"}
+        </span>
+        <span className="font-medium">{transaction.category}</span>
+        {transaction.lineItems && (
+          <>
+            <span className="text-muted-foreground">Line items</span>
+            <span className="font-medium">{formatValue(transaction.lineItems)}</span>
+          </>
+        )}
+        {transaction.splits && (
+          <>
+            <span className="text-muted-foreground">Split</span>
+            <span className="font-medium">{formatValue(transaction.splits)}</span>
+          </>
+        )}
+        {transaction.title && (
+          <>
+            <span className="text-muted-foreground">Title</span>
+            <span className="font-medium">{transaction.title}</span>
+          </>
+        )}
+        {transaction.merchant && (
+          <>
+            <span className="text-muted-foreground">Merchant</span>
+            <span className="font-medium">{transaction.merchant}</span>
+          </>
+        )}
+        {transaction.account && (
+          <>
+            <span className="text-muted-foreground">Account</span>
+            <span className="font-medium">{transaction.account}</span>
+          </>
+        )}
+        {transaction.tags && (
+          <>
+            <span className="text-muted-foreground">Tags</span>
+            <span className="flex flex-wrap gap-1">
+              {transaction.tags.map((tag) => (
+                <Badge key={tag} variant="outline" className="text-xs font-normal">
+                  {tag}
+                </Badge>
+              ))}
+            </span>
+          </>
+        )}
+        <span className="text-muted-foreground">Date</span>
+        <span className="font-medium">{transaction.date.toLocaleDateString("en-IN")}</span>
+      </div>
+
+      {/* Timeline */}
+      <div>
+        <h3 className="text-sm font-semibold mb-2">History</h3>
+        {loading ? (
+          <div className="space-y-2">
+            {Array.from({ length: 2 }).map((_, i) => (
+              <Skeleton key={i} className="h-10 w-full rounded-md bg-muted/50" />
+            ))}
+          </div>
+        ) : entries.length > 0 ? (
+          <ol className="border-l border-border ml-2 space-y-4">
+            {entries.map((entry) => (
+              <li key={entry.id} className="relative pl-4">
+                <span className="absolute -left-1.5 top-1.5 h-3 w-3 rounded-full bg-primary" />
+                <p className="text-sm font-medium flex flex-wrap items-center gap-2">
+                  {ACTION_LABELS[entry.action]}
+                  <Badge variant="outline" className="text-xs font-normal">
+                    {SOURCE_LABELS[entry.source]}
+                  </Badge>
+                </p>
+                <p className="text-xs text-muted-foreground">
+                  {entry.at.toLocaleString("en-IN")} · by {entry.actorName || entry.actorId}
+                </p>
+                {entry.changes.length > 0 && (
+                  <ul className="mt-1 text-xs space-y-0.5">
+                    {entry.changes.map((change) => (
+                      <li key={change.field}>
+                        <span className="capitalize">{FIELD_LABELS[change.field] ?? change.field}</span>:{" "}
+                        {entry.action !== "create" && (
+                          <>
+                            <span className="line-through text-muted-foreground">
+                              {formatValue(change.from)}
+                            </span>{" "}
+                            →{" "}
+                          </>
+                        )}
+                        <span>{formatValue(change.to)}</span>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </li>
+            ))}
+          </ol>
+        ) : (
+          <p className="text-sm text-muted-foreground">
+            No history recorded yet. Changes made from now on will appear here.
+          </p>
+        )}
+      </div>
+    </div>
+  );
+}
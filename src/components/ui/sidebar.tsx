@@ -11,6 +11,11 @@ import {
   Menu,
   X,
   FileUp,
+  Trash2,
+  Tags,
+  ListFilter,
+  Store,
+  FileClock,
 } from "lucide-react";
 import { useState } from "react";
 import clsx from "clsx";
@@ -85,9 +90,44 @@ export default function Sidebar() {
             <BarChart2 className="w-5 h-5" />
             Statistics
           </Link>
+          <Link
+            href="/categories"
+            className="flex items-center gap-3 px-3 py-2 rounded-md transition hover:bg-teal-600/20 hover:text-teal-400"
+          >
+            <Tags className="w-5 h-5" />
+            Categories
+          </Link>
+          <Link
+            href="/rules"
+            className="flex items-center gap-3 px-3 py-2 rounded-md transition hover:bg-teal-600/20 hover:text-teal-400"
+          >
+            <ListFilter className="w-5 h-5" />
+            Rules
+          </Link>
+          <Link
+            href="/merchants"
+            className="flex items-center gap-3 px-3 py-2 rounded-md transition hover:bg-teal-600/20 hover:text-teal-400"
+          >
+            <Store className="w-5 h-5" />
+            Merchants
+          </Link>
+          <Link
+            href="/imports"
+            className="flex items-center gap-3 px-3 py-2 rounded-md transition hover:bg-teal-600/20 hover:text-teal-400"
+          >
+            <FileClock className="w-5 h-5" />
+            Import history
+          </Link>
         </nav>
 
         <div className="mt-auto pt-6 border-t border-white/10 text-sm space-y-3">
+          <Link
+            href="/trash"
+            className="flex items-center gap-3 px-3 py-2 rounded-md transition hover:bg-white/10 hover:text-white"
+          >
+            <Trash2 className="w-5 h-5" />
+            Trash
+          </Link>
           <Link
             href="/account"
             className="flex items-center gap-3 px-3 py-2 rounded-md transition hover:bg-white/10 hover:text-white"
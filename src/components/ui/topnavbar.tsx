@@ -12,6 +12,11 @@ import {
   X,
   FileUp,
   LogOut,
+  Trash2,
+  Tags,
+  ListFilter,
+  Store,
+  FileClock,
 } from "lucide-react";
 import { useState } from "react";
 import { useAuth } from "@/context/AuthContext";
@@ -87,6 +92,13 @@ export default function TopNavbar() {
 
           {/* User Menu */}
           <div className="flex items-center gap-4">
+            <Link
+              href="/trash"
+              className="hidden md:flex items-center gap-2 px-3 py-1 font-medium transition border-b-2 border-transparent hover:border-primary"
+            >
+              <Trash2 className="w-4 h-4" />
+              <span className="font-medium">Trash</span>
+            </Link>
             <Link
               href="/account"
               className="hidden md:flex items-center gap-2 px-3 py-1 font-medium transition border-b-2 border-transparent hover:border-primary"
@@ -156,6 +168,46 @@ export default function TopNavbar() {
                 <BarChart2 className="w-5 h-5" />
                 Statistics
               </Link>
+              <Link
+                href="/categories"
+                className="flex items-center gap-3 px-3 py-2 rounded-md transition hover:bg-teal-800"
+                onClick={toggleMenu}
+              >
+                <Tags className="w-5 h-5" />
+                Categories
+              </Link>
+              <Link
+                href="/rules"
+                className="flex items-center gap-3 px-3 py-2 rounded-md transition hover:bg-teal-800"
+                onClick={toggleMenu}
+              >
+                <ListFilter className="w-5 h-5" />
+                Rules
+              </Link>
+              <Link
+                href="/merchants"
+                className="flex items-center gap-3 px-3 py-2 rounded-md transition hover:bg-teal-800"
+                onClick={toggleMenu}
+              >
+                <Store className="w-5 h-5" />
+                Merchants
+              </Link>
+              <Link
+                href="/imports"
+                className="flex items-center gap-3 px-3 py-2 rounded-md transition hover:bg-teal-800"
+                onClick={toggleMenu}
+              >
+                <FileClock className="w-5 h-5" />
+                Import history
+              </Link>
+              <Link
+                href="/trash"
+                className="flex items-center gap-3 px-3 py-2 rounded-md transition hover:bg-teal-800"
+                onClick={toggleMenu}
+              >
+                <Trash2 className="w-5 h-5" />
+                Trash
+              </Link>
               <Link
                 href="/account"
                 className="flex items-center gap-3 px-3 py-2 rounded-md transition hover:bg-teal-800"
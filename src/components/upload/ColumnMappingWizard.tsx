@@ -0,0 +1,242 @@
+// ColumnMappingWizard.tsx — maps a CSV/XLSX statement's columns once per bank, with a live preview
+
+"use client";
+
+import { useMemo, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  AmountMode,
+  applyMapping,
+  ColumnMapping,
+  DATE_FORMATS,
+  DateFormat,
+  SheetRows,
+  validateMapping,
+} from "@/lib/mappings";
+
+const selectClass = "w-full h-9 px-2 rounded-md bg-white text-foreground border border-input";
+
+const SAMPLE_ROWS = 8;
+const PREVIEW_LIMIT = 5;
+
+interface ColumnMappingWizardProps {
+  rows: SheetRows;
+  initial: ColumnMapping;
+  initialBankName?: string;
+  onApply: (mapping: ColumnMapping, bankName: string, remember: boolean) => void;
+  onUseAi: () => void;
+}
+
+// Spreadsheet-style letter for a 0-based column index (0 → A, 26 → AA)
+const columnLetter = (index: number): string =>
+  (index >= 26 ? columnLetter(Math.floor(index / 26) - 1) : "") + String.fromCharCode(65 + (index % 26));
+
+export default function ColumnMappingWizard({
+  rows,
+  initial,
+  initialBankName = "",
+  onApply,
+  onUseAi,
+}: ColumnMappingWizardProps) {
+  const [mapping, setMapping] = useState<ColumnMapping>(initial);
+  const [bankName, setBankName] = useState(initialBankName);
+  const [remember, setRemember] = useState(true);
+
+  const update = (patch: Partial<ColumnMapping>) => setMapping((prev) => ({ ...prev, ...patch }));
+
+  const header = rows[mapping.headerRow] ?? [];
+  const sample = rows.slice(0, mapping.headerRow + SAMPLE_ROWS);
+  const columnCount = Math.max(0, ...sample.map((r) => r.length));
+  const columns = Array.from({ length: columnCount }, (_, i) => ({
+    index: i,
+    label: header[i] ? `${columnLetter(i)} · ${header[i]}` : columnLetter(i),
+  }));
+
+  const error = validateMapping(mapping);
+  const parsed = useMemo(() => (error ? [] : applyMapping(rows, mapping)), [rows, mapping, error]);
+  const canApply = !error && parsed.length > 0 && (!remember || bankName.trim() !== "");
+
+  const columnSelect = (
+    label: string,
+    value: number | null,
+    onChange: (index: number | null) => void,
+    optional = false
+  ) => (
+    <div className="space-y-1">
+      <Label className="text-xs">{label}</Label>
+      <select
+        aria-label={label}
+        value={value ?? ""}
+        onChange={(e) => onChange(e.target.value === "" ? null : Number(e.target.value))}
+        className={selectClass}
+      >
+        <option value="">{optional ? "None" : "Pick a column"}</option>
+        {columns.map((c) => (
+          <option key={c.index} value={c.index}>
+            {c.label}
+          </option>
+        ))}
+      </select>
+    </div>
+  );
+
+  return (
+    <div className="space-y-5">
+      <div>
+        <h3 className="text-lg font-semibold">Map statement columns</h3>
+        <p className="text-sm text-gray-600">
+          Tell us where each field lives in this file. Remembered mappings import the next
+          statement from the same bank instantly, without AI.
+        </p>
+      </div>
+
+      {/* Raw sheet */}
+      <div className="border rounded-lg overflow-auto max-h-64">
+        <table className="w-full text-xs">
+          <thead className="bg-gray-50 sticky top-0">
+            <tr>
+              <th className="px-2 py-1 text-left text-gray-500">Row</th>
+              {columns.map((c) => (
+                <th key={c.index} className="px-2 py-1 text-left text-gray-500">
+                  {columnLetter(c.index)}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-100">
+            {sample.map((row, i) => (
+              <tr key={i} className={i === mapping.headerRow ? "bg-primary/10 font-semibold" : ""}>
+                <td className="px-2 py-1 text-gray-500">{i + 1}</td>
+                {columns.map((c) => (
+                  <td key={c.index} className="px-2 py-1 whitespace-nowrap">
+                    {row[c.index] ?? ""}
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {/* Mapping */}
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+        <div className="space-y-1">
+          <Label className="text-xs" htmlFor="mapping-header-row">
+            Header row
+          </Label>
+          <Input
+            id="mapping-header-row"
+            type="number"
+            min={1}
+            max={rows.length}
+            value={mapping.headerRow + 1}
+            onChange={(e) => {
+              const row = Number(e.target.value) - 1;
+              if (row >= 0 && row < rows.length) update({ headerRow: row });
+            }}
+            className="h-9 bg-white"
+          />
+        </div>
+        {columnSelect("Date column", mapping.dateColumn, (i) => i !== null && update({ dateColumn: i }))}
+        <div className="space-y-1">
+          <Label className="text-xs">Date format</Label>
+          <select
+            aria-label="Date format"
+            value={mapping.dateFormat}
+            onChange={(e) => update({ dateFormat: e.target.value as DateFormat })}
+            className={selectClass}
+          >
+            {DATE_FORMATS.map((format) => (
+              <option key={format} value={format}>
+                {format}
+              </option>
+            ))}
+          </select>
+        </div>
+        {columnSelect(
+          "Description column",
+          mapping.descriptionColumn,
+          (i) => i !== null && update({ descriptionColumn: i })
+        )}
+        <div className="space-y-1">
+          <Label className="text-xs">Amounts</Label>
+          <select
+            aria-label="Amounts"
+            value={mapping.amountMode}
+            onChange={(e) => update({ amountMode: e.target.value as AmountMode })}
+            className={selectClass}
+          >
+            <option value="split">Separate debit and credit columns</option>
+            <option value="signed">One signed amount column</option>
+          </select>
+        </div>
+        {mapping.amountMode === "split" ? (
+          <>
+            {columnSelect("Debit column", mapping.debitColumn, (i) => update({ debitColumn: i }))}
+            {columnSelect("Credit column", mapping.creditColumn, (i) => update({ creditColumn: i }))}
+          </>
+        ) : (
+          <>
+            {columnSelect("Amount column", mapping.amountColumn, (i) => update({ amountColumn: i }))}
+            {columnSelect("Dr/Cr column", mapping.typeColumn, (i) => update({ typeColumn: i }), true)}
+          </>
+        )}
+      </div>
+
+      {/* Parsed preview */}
+      <div className="space-y-2">
+        <p className="text-sm font-medium">
+          {error ?? `${parsed.length} transaction${parsed.length === 1 ? "" : "s"} found`}
+        </p>
+        {parsed.length > 0 && (
+          <ul className="text-xs border rounded-lg divide-y">
+            {parsed.slice(0, PREVIEW_LIMIT).map((tx, i) => (
+              <li key={i} className="flex justify-between gap-3 px-3 py-1.5">
+                <span className="text-gray-500 shrink-0">{tx.date}</span>
+                <span className="truncate flex-1">{tx.description}</span>
+                <span className={tx.type === "CR" ? "text-blue-700" : "text-red-700"}>
+                  {tx.type === "CR" ? "+" : "−"}₹{tx.amount.toFixed(2)}
+                </span>
+              </li>
+            ))}
+          </ul>
+        )}
+        {!error && parsed.length === 0 && (
+          <p className="text-xs text-red-600">
+            No row under the header has a date in this format and a non-zero amount.
+          </p>
+        )}
+      </div>
+
+      {/* Remember */}
+      <div className="flex flex-col md:flex-row md:items-center gap-3">
+        <label className="flex items-center gap-2 text-sm">
+          <input type="checkbox" checked={remember} onChange={(e) => setRemember(e.target.checked)} />
+          Remember for this bank
+        </label>
+        <Input
+          aria-label="Bank name"
+          value={bankName}
+          onChange={(e) => setBankName(e.target.value)}
+          placeholder="Bank name (e.g. HDFC)"
+          disabled={!remember}
+          className="h-9 md:w-64 bg-white"
+        />
+        <div className="flex gap-2 md:ml-auto">
+          <Button variant="outline" onClick={onUseAi}>
+            Use AI extraction instead
+          </Button>
+          <Button
+            onClick={() => onApply(mapping, bankName.trim(), remember)}
+            disabled={!canApply}
+            className="bg-primary hover:bg-primary/90 text-white"
+          >
+            {parsed.length > 0 ? `Import ${parsed.length} rows` : "Import"}
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
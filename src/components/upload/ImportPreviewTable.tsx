@@ -0,0 +1,200 @@
+// ImportPreviewTable.tsx — editable grid of extracted statement lines before they are saved
+
+"use client";
+
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { useCategories } from "@/context/CategoriesContext";
+import { findCategory } from "@/lib/categories";
+import { ImportRow, ImportRowErrors } from "@/lib/imports";
+import { TransactionKind } from "@/lib/transactions";
+
+interface ImportPreviewTableProps {
+  rows: ImportRow[];
+  errors: ImportRowErrors[];
+  onChange: (rows: ImportRow[]) => void;
+}
+
+const cellInput = "h-8 px-2 text-sm bg-white";
+const invalid = "border-red-500 bg-red-50";
+
+export default function ImportPreviewTable({ rows, errors, onChange }: ImportPreviewTableProps) {
+  const { categories } = useCategories();
+  const [bulkCategory, setBulkCategory] = useState("");
+
+  const selectedCount = rows.filter((r) => r.selected).length;
+  const allSelected = rows.length > 0 && selectedCount === rows.length;
+
+  const updateRow = (key: number, patch: Partial<ImportRow>) =>
+    onChange(rows.map((r) => (r.key === key ? { ...r, ...patch } : r)));
+
+  const toggleAll = () => onChange(rows.map((r) => ({ ...r, selected: !allSelected })));
+
+  const applyBulkCategory = () => {
+    const name = bulkCategory.trim();
+    if (!name) return;
+    onChange(rows.map((r) => (r.selected ? { ...r, category: name } : r)));
+    setBulkCategory("");
+  };
+
+  // A category picked for the other type rarely fits, so flipping the type asks again
+  const changeKind = (row: ImportRow, kind: TransactionKind) =>
+    updateRow(row.key, {
+      kind,
+      category: findCategory(categories, kind, row.category)?.name ?? "",
+    });
+
+  const names = (kind: TransactionKind) =>
+    categories.filter((c) => c.kind === kind).map((c) => c.name);
+
+  return (
+    <div className="space-y-3">
+      {/* Bulk actions */}
+      <div className="flex flex-col md:flex-row md:items-center gap-2 text-sm">
+        <span className="text-gray-600">
+          {selectedCount} of {rows.length} selected
+        </span>
+        <div className="flex gap-2 md:ml-auto">
+          <Input
+            aria-label="Category for selected rows"
+            list="import-categories-all"
+            value={bulkCategory}
+            onChange={(e) => setBulkCategory(e.target.value)}
+            placeholder="Set category for selected"
+            className="h-8 w-56"
+          />
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={applyBulkCategory}
+            disabled={!bulkCategory.trim() || selectedCount === 0}
+          >
+            Apply
+          </Button>
+        </div>
+      </div>
+
+      <datalist id="import-categories-all">
+        {[...new Set(categories.map((c) => c.name))].map((name) => (
+          <option key={name} value={name} />
+        ))}
+      </datalist>
+      {(["income", "expense"] as const).map((kind) => (
+        <datalist key={kind} id={`import-categories-${kind}`}>
+          {names(kind).map((name) => (
+            <option key={name} value={name} />
+          ))}
+        </datalist>
+      ))}
+
+      <div className="border rounded-lg overflow-hidden shadow-sm">
+        <div className="max-h-[400px] overflow-auto">
+          <table className="w-full text-sm">
+            <thead className="bg-gray-50 text-gray-700 font-medium sticky top-0 z-10">
+              <tr>
+                <th className="px-3 py-3 text-left">
+                  <input
+                    type="checkbox"
+                    checked={allSelected}
+                    onChange={toggleAll}
+                    aria-label="Select all rows"
+                  />
+                </th>
+                <th className="px-3 py-3 text-left">Date</th>
+                <th className="px-3 py-3 text-left">Description</th>
+                <th className="px-3 py-3 text-left">Merchant</th>
+                <th className="px-3 py-3 text-left">Amount</th>
+                <th className="px-3 py-3 text-left">Type</th>
+                <th className="px-3 py-3 text-left">Category</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              {rows.map((row, i) => {
+                const rowErrors = row.selected ? errors[i] ?? {} : {};
+                return (
+                  <tr
+                    key={row.key}
+                    className={`align-top hover:bg-gray-50 transition duration-150 ${
+                      row.selected ? "" : "opacity-50"
+                    }`}
+                  >
+                    <td className="px-3 py-2">
+                      <input
+                        type="checkbox"
+                        checked={row.selected}
+                        onChange={() => updateRow(row.key, { selected: !row.selected })}
+                        aria-label={`Import ${row.description}`}
+                        className="mt-2"
+                      />
+                    </td>
+                    <td className="px-3 py-2">
+                      <Input
+                        type="date"
+                        aria-label="Date"
+                        value={row.date}
+                        onChange={(e) => updateRow(row.key, { date: e.target.value })}
+                        title={rowErrors.date}
+                        className={`${cellInput} w-36 ${rowErrors.date ? invalid : ""}`}
+                      />
+                    </td>
+                    <td className="px-3 py-2 min-w-[14rem]">
+                      <Input
+                        aria-label="Description"
+                        value={row.description}
+                        onChange={(e) => updateRow(row.key, { description: e.target.value })}
+                        className={cellInput}
+                      />
+                      {row.duplicate && (
+                        <span className="mt-1 inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium bg-amber-100 text-amber-800">
+                          Duplicate
+                        </span>
+                      )}
+                    </td>
+                    <td className="px-3 py-2 pt-3.5 text-gray-600">{row.merchant ?? "—"}</td>
+                    <td className="px-3 py-2">
+                      <Input
+                        type="number"
+                        aria-label="Amount"
+                        min="0"
+                        step="0.01"
+                        value={row.amount}
+                        onChange={(e) => updateRow(row.key, { amount: e.target.value })}
+                        title={rowErrors.amount}
+                        className={`${cellInput} w-28 ${rowErrors.amount ? invalid : ""}`}
+                      />
+                    </td>
+                    <td className="px-3 py-2">
+                      <select
+                        aria-label="Type"
+                        value={row.kind}
+                        onChange={(e) => changeKind(row, e.target.value as TransactionKind)}
+                        className={`h-8 rounded-md border px-2 ${
+                          row.kind === "income" ? "bg-blue-50 text-blue-800" : "bg-yellow-50 text-yellow-800"
+                        }`}
+                      >
+                        <option value="income">Income</option>
+                        <option value="expense">Expense</option>
+                      </select>
+                    </td>
+                    <td className="px-3 py-2">
+                      <Input
+                        aria-label="Category"
+                        list={`import-categories-${row.kind}`}
+                        value={row.category}
+                        onChange={(e) => updateRow(row.key, { category: e.target.value })}
+                        title={rowErrors.category}
+                        placeholder={row.kind === "income" ? "Source" : "Category"}
+                        className={`${cellInput} w-40 ${rowErrors.category ? invalid : ""}`}
+                      />
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+}
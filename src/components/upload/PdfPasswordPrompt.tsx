@@ -0,0 +1,97 @@
+// PdfPasswordPrompt.tsx — asks for an encrypted statement's password, with the user's saved hints
+
+"use client";
+
+import { FormEvent, useState } from "react";
+import { LockKeyhole } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+
+export interface PasswordHintInput {
+  bankName: string;
+  hint: string;
+}
+
+interface PdfPasswordPromptProps {
+  incorrect: boolean;
+  hints: Record<string, string>;
+  unlocking: boolean;
+  onSubmit: (password: string, hint: PasswordHintInput | null) => void;
+}
+
+export default function PdfPasswordPrompt({ incorrect, hints, unlocking, onSubmit }: PdfPasswordPromptProps) {
+  const [password, setPassword] = useState("");
+  const [bankName, setBankName] = useState("");
+  const [hint, setHint] = useState("");
+
+  const handleSubmit = (e: FormEvent) => {
+    e.preventDefault();
+    if (!password) return;
+    onSubmit(password, bankName.trim() && hint.trim() ? { bankName, hint } : null);
+    // The password is sent once and not kept around in the page
+    setPassword("");
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4 max-w-lg mx-auto">
+      <div className="flex items-center gap-2">
+        <LockKeyhole className="w-5 h-5 text-primary" />
+        <h3 className="text-lg font-semibold">This statement is password-protected</h3>
+      </div>
+      <p className="text-sm text-gray-600">
+        The password is used once on the server to open the file and is never stored.
+      </p>
+
+      {Object.keys(hints).length > 0 && (
+        <ul className="text-sm bg-muted/40 rounded-md px-4 py-2 space-y-1">
+          {Object.entries(hints).map(([bank, text]) => (
+            <li key={bank}>
+              <span className="font-medium">{bank}:</span> {text}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <div className="space-y-1">
+        <Label htmlFor="pdf-password">Password</Label>
+        <Input
+          id="pdf-password"
+          type="password"
+          autoComplete="off"
+          value={password}
+          onChange={(e) => setPassword(e.target.value)}
+          className={incorrect ? "border-red-500" : ""}
+          autoFocus
+        />
+        {incorrect && <p className="text-xs text-red-600">That password didn&apos;t open the file.</p>}
+      </div>
+
+      <fieldset className="space-y-2">
+        <legend className="text-sm font-medium">Remember a hint (optional)</legend>
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-2">
+          <Input
+            aria-label="Bank"
+            value={bankName}
+            onChange={(e) => setBankName(e.target.value)}
+            placeholder="Bank (e.g. HDFC)"
+          />
+          <Input
+            aria-label="Hint"
+            value={hint}
+            onChange={(e) => setHint(e.target.value)}
+            placeholder="e.g. first 4 letters of name + DDMM of birth"
+            className="md:col-span-2"
+          />
+        </div>
+        <p className="text-xs text-gray-500">Describe the pattern, not the password itself.</p>
+      </fieldset>
+
+      <div className="flex justify-end">
+        <Button type="submit" disabled={!password || unlocking} className="bg-primary hover:bg-primary/90 text-white">
+          {unlocking ? "Unlocking..." : "Unlock statement"}
+        </Button>
+      </div>
+    </form>
+  );
+}
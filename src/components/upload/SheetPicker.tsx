@@ -0,0 +1,62 @@
+// SheetPicker.tsx — chooses which sheets of a multi-sheet workbook to import
+
+"use client";
+
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { WorkbookSheet } from "@/lib/mappings";
+
+interface SheetPickerProps {
+  sheets: WorkbookSheet[];
+  initialSelected: string[];
+  onConfirm: (names: string[]) => void;
+}
+
+export default function SheetPicker({ sheets, initialSelected, onConfirm }: SheetPickerProps) {
+  const [selected, setSelected] = useState<string[]>(initialSelected);
+
+  const toggle = (name: string) =>
+    setSelected((prev) => (prev.includes(name) ? prev.filter((n) => n !== name) : [...prev, name]));
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <h3 className="text-lg font-semibold">Choose sheets</h3>
+        <p className="text-sm text-gray-600">
+          This workbook has {sheets.length} sheets. Sheets that look like transaction tables are
+          ticked; sheets picked together are read with the same column mapping.
+        </p>
+      </div>
+
+      <ul className="border rounded-lg divide-y">
+        {sheets.map((sheet) => (
+          <li key={sheet.name}>
+            <label className="flex items-center gap-3 px-4 py-2 text-sm cursor-pointer hover:bg-gray-50">
+              <input
+                type="checkbox"
+                checked={selected.includes(sheet.name)}
+                onChange={() => toggle(sheet.name)}
+              />
+              <span className="font-medium">{sheet.name}</span>
+              <span className="ml-auto text-xs text-gray-500">
+                {sheet.transactionCount > 0
+                  ? `~${sheet.transactionCount} transaction${sheet.transactionCount === 1 ? "" : "s"}`
+                  : `${sheet.rows.length} row${sheet.rows.length === 1 ? "" : "s"}, no transactions detected`}
+              </span>
+            </label>
+          </li>
+        ))}
+      </ul>
+
+      <div className="flex justify-end">
+        <Button
+          onClick={() => onConfirm(sheets.map((s) => s.name).filter((name) => selected.includes(name)))}
+          disabled={selected.length === 0}
+          className="bg-primary hover:bg-primary/90 text-white"
+        >
+          Continue with {selected.length} sheet{selected.length === 1 ? "" : "s"}
+        </Button>
+      </div>
+    </div>
+  );
+}
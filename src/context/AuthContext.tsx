@@ -11,6 +11,14 @@ import {
 } from "react";
 import { onAuthStateChanged, User } from "firebase/auth";
 import { auth } from "@/lib/firebase";
+import { isLocalBackend } from "@/lib/storage";
+
+// Offline (local storage backend) sessions run as a fixed demo user
+const LOCAL_USER = {
+  uid: "local-user",
+  displayName: "Local User",
+  email: "local@vaultface.dev",
+} as User;
 
 // Define the shape of our AuthContext
 interface AuthContextValue {
@@ -26,10 +34,12 @@ const AuthContext = createContext<AuthContextValue>({
 
 // AuthProvider component to wrap around the app
 export const AuthProvider = ({ children }: { children: ReactNode }) => {
-  const [user, setUser] = useState<User | null>(null);
-  const [loading, setLoading] = useState(true);
+  const [user, setUser] = useState<User | null>(isLocalBackend ? LOCAL_USER : null);
+  const [loading, setLoading] = useState(!isLocalBackend);
 
   useEffect(() => {
+    if (isLocalBackend) return;
+
     // Listen for Firebase auth state changes
     const unsubscribe = onAuthStateChanged(auth, (firebaseUser) => {
       setUser(firebaseUser);
@@ -0,0 +1,71 @@
+// src/context/CategoriesContext.tsx
+
+"use client";
+
+import { createContext, useContext, useEffect, useMemo, useState, ReactNode } from "react";
+import { useAuth } from "@/context/AuthContext";
+import { Category, fetchCategories, onCategoriesChanged } from "@/lib/categories";
+import { TransactionKind } from "@/lib/transactions";
+
+interface CategoriesContextValue {
+  categories: Category[];
+  loading: boolean;
+}
+
+const CategoriesContext = createContext<CategoriesContextValue>({
+  categories: [],
+  loading: true,
+});
+
+// Keeps the signed-in user's categories and income sources available app-wide
+export const CategoriesProvider = ({ children }: { children: ReactNode }) => {
+  const { user } = useAuth();
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [version, setVersion] = useState(0);
+
+  useEffect(
+    () =>
+      onCategoriesChanged((uid) => {
+        if (uid === user?.uid) setVersion((v) => v + 1);
+      }),
+    [user]
+  );
+
+  useEffect(() => {
+    if (!user) {
+      setCategories([]);
+      return;
+    }
+    let cancelled = false;
+
+    fetchCategories(user.uid)
+      .then((list) => {
+        if (!cancelled) setCategories(list);
+      })
+      .catch((err) => console.error("Error fetching categories:", err))
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [user, version]);
+
+  return (
+    <CategoriesContext.Provider value={{ categories, loading }}>
+      {children}
+    </CategoriesContext.Provider>
+  );
+};
+
+// Pass a kind to get only expense categories or only income sources
+export const useCategories = (kind?: TransactionKind) => {
+  const { categories, loading } = useContext(CategoriesContext);
+  const filtered = useMemo(
+    () => (kind ? categories.filter((c) => c.kind === kind) : categories),
+    [categories, kind]
+  );
+  return { categories: filtered, loading };
+};
@@ -0,0 +1,126 @@
+// src/context/TransactionsContext.tsx
+
+"use client";
+
+import {
+  createContext,
+  useCallback,
+  useContext,
+  useEffect,
+  useRef,
+  useState,
+  ReactNode,
+} from "react";
+import { useAuth } from "@/context/AuthContext";
+import {
+  applyTransactionChange,
+  DateRange,
+  fetchTransactions,
+  onTransactionsChanged,
+  Transaction,
+  TransactionKind,
+} from "@/lib/transactions";
+
+// Shape shared with every widget rendered inside the provider
+interface TransactionsContextValue {
+  range: DateRange | null;
+  incomes: Transaction[];
+  expenses: Transaction[];
+  loading: boolean;
+  error: string | null;
+  // Optimistically replaces (or removes, when `next` is null) a transaction
+  applyChange: (kind: TransactionKind, id: string, next: Transaction | null) => void;
+}
+
+const TransactionsContext = createContext<TransactionsContextValue>({
+  range: null,
+  incomes: [],
+  expenses: [],
+  loading: true,
+  error: null,
+  applyChange: () => {},
+});
+
+// Loads incomes and expenses for one date window and shares them with
+// all nested widgets, so a page hits Firestore once instead of per widget.
+export const TransactionsProvider = ({
+  range,
+  children,
+}: {
+  range: DateRange;
+  children: ReactNode;
+}) => {
+  const { user } = useAuth();
+  const [incomes, setIncomes] = useState<Transaction[]>([]);
+  const [expenses, setExpenses] = useState<Transaction[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [version, setVersion] = useState(0);
+  const silentReload = useRef(false);
+
+  // Reload whenever the repository reports a write for this user
+  useEffect(
+    () =>
+      onTransactionsChanged((uid) => {
+        if (uid && uid !== user?.uid) return;
+        silentReload.current = true;
+        setVersion((v) => v + 1);
+      }),
+    [user]
+  );
+
+  useEffect(() => {
+    if (!user) return;
+    let cancelled = false;
+
+    const load = async () => {
+      // Background reloads after a write keep showing the current data
+      if (!silentReload.current) setLoading(true);
+      silentReload.current = false;
+      setError(null);
+
+      try {
+        const [incomeList, expenseList] = await Promise.all([
+          fetchTransactions(user.uid, "income", range),
+          fetchTransactions(user.uid, "expense", range),
+        ]);
+        if (cancelled) return;
+        setIncomes(incomeList);
+        setExpenses(expenseList);
+      } catch (err) {
+        console.error("Error fetching transactions:", err);
+        if (!cancelled) setError("Failed to load transactions.");
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+
+    load();
+    return () => {
+      cancelled = true;
+    };
+  }, [user, range, version]);
+
+  const applyChange = useCallback(
+    (kind: TransactionKind, id: string, next: Transaction | null) => {
+      const setList = kind === "income" ? setIncomes : setExpenses;
+      setList((list) => applyTransactionChange(list, id, next));
+    },
+    []
+  );
+
+  return (
+    <TransactionsContext.Provider value={{ range, incomes, expenses, loading, error, applyChange }}>
+      {children}
+    </TransactionsContext.Provider>
+  );
+};
+
+export const useTransactions = () => useContext(TransactionsContext);
+
+// Counter bumped on every repository write; add it to effect deps to refetch
+export const useTransactionsVersion = () => {
+  const [version, setVersion] = useState(0);
+  useEffect(() => onTransactionsChanged(() => setVersion((v) => v + 1)), []);
+  return version;
+};
@@ -0,0 +1,293 @@
+import { ChangeContext } from "@/lib/history";
+import { renameRuleCategory } from "@/lib/rules";
+import { BatchWrite, store, StoredDoc } from "@/lib/storage";
+import { renameTransactionCategory, sameCategoryName, TransactionKind } from "@/lib/transactions";
+
+// ---------- Types ----------
+// Expense categories and income sources share one model, told apart by `kind`
+export interface Category {
+  id: string;
+  userId: string;
+  kind: TransactionKind;
+  name: string;
+  color: string;
+  icon: string; // Key of CATEGORY_ICONS in components/categories/CategoryIcon
+  parentId: string | null;
+}
+
+export interface NewCategory {
+  kind: TransactionKind;
+  name: string;
+  color: string;
+  icon: string;
+  parentId?: string | null;
+}
+
+export const CATEGORIES_COLLECTION = "categories";
+
+export const CATEGORY_COLORS = [
+  "#14b8a6", "#fcd34d", "#a78bfa", "#34d399", "#f87171",
+  "#818cf8", "#fb923c", "#c084fc", "#2dd4bf", "#e879f9",
+];
+
+// Seeded for users who have not set up their own categories yet
+export const DEFAULT_CATEGORIES: Record<TransactionKind, Omit<NewCategory, "kind">[]> = {
+  expense: [
+    { name: "Groceries", color: "#34d399", icon: "shopping-cart" },
+    { name: "Food", color: "#fb923c", icon: "utensils" },
+    { name: "Travel", color: "#818cf8", icon: "plane" },
+    { name: "Rent", color: "#a78bfa", icon: "house" },
+    { name: "Shopping", color: "#e879f9", icon: "shopping-bag" },
+    { name: "Bills", color: "#fcd34d", icon: "receipt" },
+    { name: "Medical", color: "#f87171", icon: "heart-pulse" },
+    { name: "Entertainment", color: "#c084fc", icon: "film" },
+    { name: "Cash", color: "#2dd4bf", icon: "banknote" },
+    { name: "Misc", color: "#94a3b8", icon: "tag" },
+  ],
+  income: [
+    { name: "Salary", color: "#14b8a6", icon: "briefcase" },
+    { name: "Freelancing", color: "#818cf8", icon: "laptop" },
+    { name: "Investments Return", color: "#34d399", icon: "trending-up" },
+    { name: "Business", color: "#fb923c", icon: "building" },
+    { name: "Gift", color: "#e879f9", icon: "gift" },
+  ],
+};
+
+// ---------- Helpers ----------
+export function findCategory(
+  categories: Category[],
+  kind: TransactionKind,
+  name: string
+): Category | undefined {
+  return categories.find((c) => c.kind === kind && sameCategoryName(c.name, name));
+}
+
+/**
+ * Color for a category name. Names without a stored category (legacy or
+ * deleted ones) get a stable color from the palette.
+ */
+export function categoryColor(categories: Category[], kind: TransactionKind, name: string): string {
+  const found = findCategory(categories, kind, name);
+  if (found) return found.color;
+
+  const hash = [...name].reduce((h, ch) => (h * 31 + ch.charCodeAt(0)) >>> 0, 0);
+  return CATEGORY_COLORS[hash % CATEGORY_COLORS.length];
+}
+
+/**
+ * Parents followed by their children, for pickers and the management page.
+ * Each entry carries its depth (0 or 1) for indentation.
+ */
+export function sortCategoryTree(categories: Category[]): { category: Category; depth: number }[] {
+  const byName = (a: Category, b: Category) => a.name.localeCompare(b.name);
+  const ids = new Set(categories.map((c) => c.id));
+  const roots = categories.filter((c) => !c.parentId || !ids.has(c.parentId)).sort(byName);
+
+  return roots.flatMap((root) => [
+    { category: root, depth: 0 },
+    ...categories
+      .filter((c) => c.parentId === root.id)
+      .sort(byName)
+      .map((category) => ({ category, depth: 1 })),
+  ]);
+}
+
+// ---------- Mapping ----------
+function fromDoc(doc: StoredDoc): Category {
+  const d = doc.data as Partial<Category>;
+  return {
+    id: doc.id,
+    userId: d.userId ?? "",
+    kind: d.kind === "income" ? "income" : "expense",
+    name: d.name ?? "",
+    color: d.color ?? CATEGORY_COLORS[0],
+    icon: d.icon ?? "tag",
+    parentId: d.parentId ?? null,
+  };
+}
+
+function validateCategory(input: NewCategory): NewCategory {
+  if (!input.name?.trim()) throw new Error("Category name is required");
+  if (!/^#[0-9a-f]{6}$/i.test(input.color)) throw new Error(`Invalid category color: ${input.color}`);
+  return { ...input, name: input.name.trim(), parentId: input.parentId ?? null };
+}
+
+// Only one level of nesting: parents must be top-level categories of the same kind
+function assertValidParent(
+  categories: Category[],
+  kind: TransactionKind,
+  parentId: string | null | undefined,
+  id?: string
+) {
+  if (!parentId) return;
+
+  const parent = categories.find((c) => c.id === parentId);
+  if (!parent || parent.kind !== kind) throw new Error("Parent category not found");
+  if (parent.id === id || parent.parentId || (id && categories.some((c) => c.parentId === id))) {
+    throw new Error("Categories can only be nested one level deep");
+  }
+}
+
+// ---------- Queries ----------
+const cache = new Map<string, Promise<Category[]>>();
+
+async function loadCategories(uid: string): Promise<Category[]> {
+  const docs = await store.list(CATEGORIES_COLLECTION, [{ field: "userId", op: "==", value: uid }]);
+  if (docs.length > 0) return docs.map(fromDoc);
+
+  // First use: seed the defaults so existing forms keep their options
+  const seeded: Category[] = [];
+  for (const kind of Object.keys(DEFAULT_CATEGORIES) as TransactionKind[]) {
+    for (const preset of DEFAULT_CATEGORIES[kind]) {
+      const data = { ...preset, kind, parentId: null, userId: uid };
+      const id = await store.add(CATEGORIES_COLLECTION, data);
+      seeded.push({ id, ...data });
+    }
+  }
+  return seeded;
+}
+
+/** All of a user's categories and income sources (cached per user). */
+export function fetchCategories(uid: string): Promise<Category[]> {
+  let result = cache.get(uid);
+  if (!result) {
+    result = loadCategories(uid);
+    cache.set(uid, result);
+    result.catch(() => cache.delete(uid));
+  }
+  return result;
+}
+
+// ---------- Change Notifications ----------
+type ChangeListener = (uid: string) => void;
+
+const listeners = new Set<ChangeListener>();
+
+export function onCategoriesChanged(listener: ChangeListener): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+function invalidateCategories(uid: string) {
+  cache.delete(uid);
+  listeners.forEach((listener) => listener(uid));
+}
+
+// ---------- Writes ----------
+export async function addCategory(uid: string, input: NewCategory): Promise<string> {
+  const valid = validateCategory(input);
+  const existing = await fetchCategories(uid);
+  if (findCategory(existing, valid.kind, valid.name)) {
+    throw new Error(`"${valid.name}" already exists`);
+  }
+  assertValidParent(existing, valid.kind, valid.parentId);
+
+  const id = await store.add(CATEGORIES_COLLECTION, { ...valid, userId: uid });
+  invalidateCategories(uid);
+  return id;
+}
+
+// Whether a category of the other kind goes by this name too
+const nameUsedByOtherKind = (categories: Category[], kind: TransactionKind, name: string) =>
+  !!findCategory(categories, kind === "income" ? "expense" : "income", name);
+
+/**
+ * Creates a category for a free-text name typed into a form, unless one with
+ * that name already exists.
+ */
+export async function ensureCategory(uid: string, kind: TransactionKind, name: string) {
+  const existing = findCategory(await fetchCategories(uid), kind, name);
+  if (existing) return existing.id;
+
+  const color = categoryColor([], kind, name);
+  return addCategory(uid, { kind, name, color, icon: "tag" });
+}
+
+/**
+ * Updates a category. Renaming it rewrites the name on every existing
+ * transaction and rule first, so history and reports stay grouped; the
+ * category itself changes last, leaving a failed rename free to be retried.
+ */
+export async function updateCategory(
+  uid: string,
+  id: string,
+  input: NewCategory,
+  context: ChangeContext = {}
+): Promise<void> {
+  const valid = validateCategory(input);
+  const categories = await fetchCategories(uid);
+  const current = categories.find((c) => c.id === id);
+  if (!current) throw new Error("Category not found");
+
+  const clash = findCategory(categories, current.kind, valid.name);
+  if (clash && clash.id !== id) {
+    throw new Error(`"${valid.name}" already exists — merge the categories instead`);
+  }
+  assertValidParent(categories, current.kind, valid.parentId, id);
+
+  if (current.name !== valid.name) {
+    await renameTransactionCategory(uid, current.kind, current.name, valid.name, context);
+    const shared = nameUsedByOtherKind(categories, current.kind, current.name);
+    await renameRuleCategory(uid, current.kind, current.name, valid.name, shared);
+  }
+
+  await store.update(CATEGORIES_COLLECTION, id, {
+    name: valid.name,
+    color: valid.color,
+    icon: valid.icon,
+    parentId: valid.parentId,
+  });
+  invalidateCategories(uid);
+}
+
+/**
+ * Folds `sourceId` into `targetId`: its transactions and subcategories move
+ * to the target, then the source category is removed. The category writes
+ * come last and in one batch, so a merge that fails halfway can be retried.
+ */
+export async function mergeCategories(
+  uid: string,
+  sourceId: string,
+  targetId: string,
+  context: ChangeContext = {}
+): Promise<number> {
+  const categories = await fetchCategories(uid);
+  const source = categories.find((c) => c.id === sourceId);
+  const target = categories.find((c) => c.id === targetId);
+  if (!source || !target) throw new Error("Category not found");
+  if (source.id === target.id) throw new Error("Cannot merge a category into itself");
+  if (source.kind !== target.kind) throw new Error("Cannot merge an income source into an expense category");
+
+  const moved = await renameTransactionCategory(uid, source.kind, source.name, target.name, context);
+  // Rules would otherwise keep assigning (and re-creating) the merged-away name
+  const shared = nameUsedByOtherKind(categories, source.kind, source.name);
+  await renameRuleCategory(uid, source.kind, source.name, target.name, shared);
+
+  // Subcategories go under the target, or beside it when the target is itself a subcategory
+  const targetIsChild = target.parentId === source.id;
+  const writes: BatchWrite[] = categories
+    .filter((c) => c.parentId === source.id)
+    .map((child) => ({
+      op: "update",
+      collection: CATEGORIES_COLLECTION,
+      id: child.id,
+      patch: { parentId: child.id === target.id ? null : targetIsChild ? target.id : target.parentId ?? target.id },
+    }));
+  writes.push({ op: "remove", collection: CATEGORIES_COLLECTION, id: source.id });
+  await store.batch(writes);
+
+  invalidateCategories(uid);
+  return moved;
+}
+
+/** Removes a category; its transactions keep the name and subcategories move up a level. */
+export async function deleteCategory(uid: string, id: string): Promise<void> {
+  const categories = await fetchCategories(uid);
+  for (const child of categories.filter((c) => c.parentId === id)) {
+    await store.update(CATEGORIES_COLLECTION, child.id, { parentId: null });
+  }
+  await store.remove(CATEGORIES_COLLECTION, id);
+  invalidateCategories(uid);
+}
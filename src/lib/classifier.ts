@@ -0,0 +1,142 @@
+import {
+  fetchTransactions,
+  onTransactionsChanged,
+  Transaction,
+  TransactionKind,
+} from "@/lib/transactions";
+
+// ---------- Types ----------
+// Multinomial naive Bayes over description tokens plus an amount bucket,
+// trained in the browser on the user's own categorized history.
+interface LabelStats {
+  docs: number; // Transactions carrying this label
+  tokens: number; // Total feature occurrences
+  counts: Map<string, number>;
+}
+
+export interface ClassifierModel {
+  kind: TransactionKind;
+  docs: number;
+  labels: Map<string, LabelStats>;
+  vocabulary: Set<string>;
+}
+
+export interface Prediction {
+  category: string;
+  confidence: number; // Posterior probability of the winning label, 0..1
+}
+
+// Below these the model is too unsure to be worth suggesting
+const MIN_TRAINING_DOCS = 5;
+const MIN_CONFIDENCE = 0.6;
+
+// Bank-statement boilerplate that says nothing about the category
+const STOPWORDS = new Set([
+  "upi", "neft", "imps", "rtgs", "pos", "ref", "txn", "to", "from", "by", "the",
+  "and", "of", "for", "payment", "transfer", "dr", "cr", "ltd", "pvt", "private", "limited",
+]);
+
+// Catch-all labels (including the import fallbacks) carry no signal worth learning
+const IGNORED_LABELS = new Set(["misc", "other", "uncategorized"]);
+
+// ---------- Features ----------
+export function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter((t) => t.length > 2 && !/^\d+$/.test(t) && !STOPWORDS.has(t));
+}
+
+// Order of magnitude, so ₹80 and ₹95 share a bucket but ₹80 and ₹8,000 don't
+const amountBucket = (amount: number) =>
+  `amount:${amount > 0 ? Math.floor(Math.log10(amount)) : 0}`;
+
+function features(description: string, amount: number): string[] {
+  const tokens = tokenize(description);
+  return tokens.length > 0 ? [...tokens, amountBucket(amount)] : [];
+}
+
+// ---------- Training ----------
+export function trainClassifier(kind: TransactionKind, transactions: Transaction[]): ClassifierModel {
+  const model: ClassifierModel = { kind, docs: 0, labels: new Map(), vocabulary: new Set() };
+
+  for (const t of transactions) {
+    if (t.kind !== kind || IGNORED_LABELS.has(t.category.toLowerCase())) continue;
+    const feats = features(t.title ?? "", t.amount);
+    if (feats.length === 0) continue;
+
+    let stats = model.labels.get(t.category);
+    if (!stats) {
+      stats = { docs: 0, tokens: 0, counts: new Map() };
+      model.labels.set(t.category, stats);
+    }
+
+    model.docs++;
+    stats.docs++;
+    for (const f of feats) {
+      stats.counts.set(f, (stats.counts.get(f) ?? 0) + 1);
+      stats.tokens++;
+      model.vocabulary.add(f);
+    }
+  }
+
+  return model;
+}
+
+// ---------- Prediction ----------
+
+/**
+ * Most likely category for a description, or null when the model has too
+ * little history or none of the description's words have been seen before.
+ */
+export function predictCategory(
+  model: ClassifierModel,
+  description: string,
+  amount: number
+): Prediction | null {
+  if (model.docs < MIN_TRAINING_DOCS || model.labels.size === 0) return null;
+
+  const feats = features(description, amount);
+  if (!feats.some((f) => !f.startsWith("amount:") && model.vocabulary.has(f))) return null;
+
+  // Log-space scores with Laplace smoothing
+  const vocabSize = model.vocabulary.size;
+  const scores: [string, number][] = [];
+  for (const [label, stats] of model.labels) {
+    let score = Math.log(stats.docs / model.docs);
+    for (const f of feats) {
+      score += Math.log(((stats.counts.get(f) ?? 0) + 1) / (stats.tokens + vocabSize));
+    }
+    scores.push([label, score]);
+  }
+
+  // Softmax over the log scores gives a comparable confidence
+  const max = Math.max(...scores.map(([, s]) => s));
+  const total = scores.reduce((sum, [, s]) => sum + Math.exp(s - max), 0);
+  const [category, best] = scores.reduce((a, b) => (b[1] > a[1] ? b : a));
+  const confidence = Math.exp(best - max) / total;
+
+  return confidence >= MIN_CONFIDENCE ? { category, confidence } : null;
+}
+
+// ---------- Cached Models ----------
+const models = new Map<string, Promise<ClassifierModel>>();
+
+// Any write (including a recategorization) retrains on next use
+onTransactionsChanged((uid) => {
+  for (const key of [...models.keys()]) {
+    if (!uid || key.startsWith(`${uid}:`)) models.delete(key);
+  }
+});
+
+/** Model trained on all of a user's transactions of one kind. */
+export function loadClassifier(uid: string, kind: TransactionKind): Promise<ClassifierModel> {
+  const key = `${uid}:${kind}`;
+  let model = models.get(key);
+  if (!model) {
+    model = fetchTransactions(uid, kind).then((list) => trainClassifier(kind, list));
+    models.set(key, model);
+    model.catch(() => models.delete(key));
+  }
+  return model;
+}
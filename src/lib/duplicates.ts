@@ -0,0 +1,67 @@
+import type { Transaction } from "@/lib/transactions";
+
+// ---------- Types ----------
+
+// The parts of a statement line that identify it across re-uploads
+export interface FingerprintInput {
+  date: Date;
+  amount: number;
+  description: string;
+  account?: string;
+  externalId?: string; // Bank transaction ID (OFX FITID), when the file has one
+}
+
+// ---------- Fingerprints ----------
+const dayKey = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, "0")}-${String(date.getDate()).padStart(2, "0")}`;
+
+// Case, spacing and punctuation differ between PDF, Excel and CSV exports of one statement
+export const normalizeDescription = (description: string) =>
+  description.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, " ").trim();
+
+const externalFingerprint = ({ externalId, account }: FingerprintInput) =>
+  ["id", normalizeDescription(account ?? ""), externalId].join("|");
+
+function contentFingerprint({ date, amount, description, account }: FingerprintInput): string {
+  return [
+    dayKey(date),
+    Math.abs(amount).toFixed(2),
+    normalizeDescription(description),
+    normalizeDescription(account ?? ""),
+  ].join("|");
+}
+
+// The bank's own ID identifies a line better than its content does
+export function transactionFingerprint(input: FingerprintInput): string {
+  return input.externalId ? externalFingerprint(input) : contentFingerprint(input);
+}
+
+// Transactions saved before fingerprints existed are matched on their title
+const storedFingerprint = (t: Transaction) =>
+  t.fingerprint ??
+  contentFingerprint({ date: t.date, amount: t.amount, description: t.title ?? "", account: t.account });
+
+/**
+ * Flags which candidates already exist. Counts are compared rather than
+ * membership, so two identical coffees on the same day in one statement are
+ * only flagged if both were saved before. A candidate with a bank ID matches
+ * by that ID, or by content when the line was first saved from an export
+ * without IDs (PDF, CSV).
+ */
+export function findDuplicates(candidates: FingerprintInput[], existing: Transaction[]): boolean[] {
+  const remaining = new Map<string, number>();
+  for (const t of existing) {
+    const key = storedFingerprint(t);
+    remaining.set(key, (remaining.get(key) ?? 0) + 1);
+  }
+
+  return candidates.map((candidate) => {
+    const keys = candidate.externalId
+      ? [externalFingerprint(candidate), contentFingerprint(candidate)]
+      : [contentFingerprint(candidate)];
+    const key = keys.find((k) => (remaining.get(k) ?? 0) > 0);
+    if (!key) return false;
+    remaining.set(key, remaining.get(key)! - 1);
+    return true;
+  });
+}
@@ -3,8 +3,13 @@ import { getAuth } from "firebase/auth";
 import { getFirestore } from "firebase/firestore";
 import { getStorage } from "firebase/storage";
 
+// With the local storage backend there is no Firebase project; a placeholder
+// key keeps SDK initialization from throwing (nothing calls Firebase then).
+const LOCAL_PLACEHOLDER_KEY =
+  process.env.NEXT_PUBLIC_STORAGE_BACKEND === "local" ? "local-backend" : undefined;
+
 const firebaseConfig = {
-  apiKey: process.env.NEXT_PUBLIC_FIREBASE_API_KEY!,
+  apiKey: (process.env.NEXT_PUBLIC_FIREBASE_API_KEY || LOCAL_PLACEHOLDER_KEY)!,
   authDomain: process.env.NEXT_PUBLIC_FIREBASE_AUTH_DOMAIN!,
   projectId: process.env.NEXT_PUBLIC_FIREBASE_PROJECT_ID!,
   storageBucket: process.env.NEXT_PUBLIC_FIREBASE_STORAGE_BUCKET!,
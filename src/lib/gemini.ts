@@ -31,8 +31,9 @@ export async function fetchGeminiWithInlineData(params: {
   base64: string;
   mimeType: string;
   prompt: string;
+  maxOutputTokens?: number; // Short answers by default; raise for transcriptions
 }): Promise<string> {
-  const { base64, mimeType, prompt } = params;
+  const { base64, mimeType, prompt, maxOutputTokens = 256 } = params;
   const apiKey = process.env.GEMINI_API_KEY;
   if (!apiKey) throw new Error("GEMINI_API_KEY is missing");
 
@@ -57,7 +58,7 @@ export async function fetchGeminiWithInlineData(params: {
       // Optional config
       generationConfig: {
         temperature: 0.1,
-        maxOutputTokens: 256,
+        maxOutputTokens,
       },
     }),
   });
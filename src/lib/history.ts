@@ -0,0 +1,121 @@
+import { v4 as uuidv4 } from "uuid";
+import { BatchWrite, store, StoredDoc } from "@/lib/storage";
+import type { Transaction, TransactionKind } from "@/lib/transactions";
+
+// ---------- Types ----------
+export type ChangeAction = "create" | "update" | "delete" | "restore";
+
+// Where the written values came from
+export type ChangeSource = "manual" | "receipt" | "import";
+
+export interface FieldChange {
+  field: string;
+  from: unknown;
+  to: unknown;
+}
+
+export interface TransactionChange {
+  id: string;
+  transactionId: string;
+  kind: TransactionKind;
+  userId: string; // Owner of the transaction
+  actorId: string; // Who made the change
+  actorName?: string;
+  action: ChangeAction;
+  source: ChangeSource;
+  changes: FieldChange[];
+  at: Date;
+}
+
+// Passed by callers of the repository write functions
+export interface ChangeContext {
+  source?: ChangeSource;
+  actorName?: string;
+}
+
+export const HISTORY_COLLECTION = "transactionHistory";
+
+// Fields compared between revisions, in display order
+const TRACKED_FIELDS = [
+  "amount",
+  "category",
+  "lineItems",
+  "splits",
+  "title",
+  "merchant",
+  "account",
+  "tags",
+  "date",
+] as const;
+
+type TrackedValues = Pick<Transaction, (typeof TRACKED_FIELDS)[number]>;
+
+// ---------- Diffing ----------
+const normalize = (value: unknown) => {
+  if (value instanceof Date) return value.getTime();
+  if (Array.isArray(value)) return value.length ? JSON.stringify(value) : null;
+  return value ?? null;
+};
+
+const sameValue = (a: unknown, b: unknown) => normalize(a) === normalize(b);
+
+/** Field-level changes between two revisions; `before` is null for creations. */
+export function diffTransaction(
+  before: Partial<TrackedValues> | null,
+  after: Partial<TrackedValues>
+): FieldChange[] {
+  return TRACKED_FIELDS.filter((field) => !sameValue(before?.[field], after[field])).map(
+    (field) => ({ field, from: before?.[field] ?? null, to: after[field] ?? null })
+  );
+}
+
+// ---------- Writes ----------
+
+/**
+ * Appends an entry to the audit trail. Failures are logged rather than
+ * thrown so a history hiccup never rolls back the user's actual edit.
+ */
+export async function recordTransactionChange(
+  entry: Omit<TransactionChange, "id" | "at">
+): Promise<void> {
+  try {
+    await store.add(HISTORY_COLLECTION, { ...entry, at: new Date() });
+  } catch (err) {
+    console.error("Failed to record transaction history:", err);
+  }
+}
+
+/** The same entry as a batch write, for callers committing it atomically with the change. */
+export function transactionChangeWrite(entry: Omit<TransactionChange, "id" | "at">): BatchWrite {
+  return { op: "create", collection: HISTORY_COLLECTION, id: uuidv4(), data: { ...entry, at: new Date() } };
+}
+
+// ---------- Queries ----------
+function fromDoc(doc: StoredDoc): TransactionChange {
+  const d = doc.data as Omit<TransactionChange, "id">;
+  return {
+    ...d,
+    id: doc.id,
+    source: d.source ?? "manual",
+    changes: d.changes ?? [],
+    at: d.at instanceof Date ? d.at : new Date(String(d.at)),
+  };
+}
+
+/** Full timeline for one transaction, oldest entry first. */
+export async function fetchTransactionHistory(
+  uid: string,
+  transactionId: string
+): Promise<TransactionChange[]> {
+  const docs = await store.list(HISTORY_COLLECTION, [
+    { field: "userId", op: "==", value: uid },
+    { field: "transactionId", op: "==", value: transactionId },
+  ]);
+
+  return docs.map(fromDoc).sort((a, b) => a.at.getTime() - b.at.getTime());
+}
+
+/** Display name stored with each entry so shared timelines show who acted. */
+export function actorName(user: { displayName: string | null; email: string | null }) {
+  return user.displayName || user.email || undefined;
+}
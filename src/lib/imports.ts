@@ -0,0 +1,323 @@
+import { loadClassifier, predictCategory } from "@/lib/classifier";
+import { FingerprintInput, transactionFingerprint } from "@/lib/duplicates";
+import { ChangeContext, transactionChangeWrite } from "@/lib/history";
+import { MerchantAlias, normalizeMerchant } from "@/lib/merchants";
+import { applyRules, fetchRules } from "@/lib/rules";
+import { BatchWrite, store, StoredDoc } from "@/lib/storage";
+import {
+  addTransactions,
+  COLLECTIONS,
+  invalidateTransactions,
+  NewTransaction,
+  TransactionKind,
+} from "@/lib/transactions";
+
+// ---------- Types ----------
+export type ImportBatchStatus = "active" | "rolledBack";
+
+// One statement upload and the transactions it created
+export interface ImportBatch {
+  id: string;
+  userId: string;
+  fileName: string;
+  fileHash: string; // SHA-256 of the uploaded file
+  account?: string;
+  rowCount: number; // Transactions saved from the file
+  from: Date | null; // Earliest and latest transaction dates
+  to: Date | null;
+  importedAt: Date;
+  status: ImportBatchStatus;
+  rolledBackAt?: Date;
+}
+
+export type NewImportBatch = Pick<ImportBatch, "fileName" | "fileHash" | "account" | "from" | "to">;
+
+// A statement line as returned by /api/file-transaction
+export interface ExtractedTransaction {
+  date: string;
+  description: string;
+  amount: number;
+  type: "CR" | "DR";
+  classifiedAs: "Income" | "Expense";
+  externalId?: string; // Bank transaction ID from OFX/QFX files (FITID)
+}
+
+// One editable line of the import preview grid
+export interface ImportRow {
+  key: number;
+  raw: string; // Statement text as extracted; merchant and fingerprint come from it
+  date: string; // yyyy-mm-dd
+  description: string;
+  amount: string;
+  kind: TransactionKind;
+  category: string;
+  tags: string[];
+  merchant?: string;
+  externalId?: string;
+  selected: boolean;
+  duplicate: boolean;
+}
+
+export type ImportRowErrors = Partial<Record<"date" | "amount" | "category", string>>;
+
+export const IMPORT_BATCHES_COLLECTION = "importBatches";
+
+// Rows saved per atomic write: each row is a transaction plus its history entry
+export const IMPORT_CHUNK_SIZE = 100;
+
+// ---------- Helpers ----------
+
+/** Hex SHA-256 of a file, used to spot the same statement uploaded twice. */
+export async function hashFile(file: Blob): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", await file.arrayBuffer());
+  return Array.from(new Uint8Array(digest), (b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+const pad = (n: number) => String(n).padStart(2, "0");
+
+/** Local calendar date as used by `<input type="date">`. */
+export const toInputDate = (date: Date) =>
+  `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+
+// Parsed as a local date, so a row dated the 1st never lands in the previous month
+export function parseInputDate(value: string): Date | null {
+  const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(value);
+  if (!match) return null;
+  const date = new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3]));
+  return isNaN(date.getTime()) ? null : date;
+}
+
+const toOptionalDate = (value: unknown) => (value instanceof Date ? value : null);
+
+function fromDoc(doc: StoredDoc): ImportBatch {
+  const d = doc.data as Partial<ImportBatch> & { createdAt?: unknown };
+  return {
+    id: doc.id,
+    userId: d.userId ?? "",
+    fileName: d.fileName ?? "",
+    fileHash: d.fileHash ?? "",
+    account: d.account || undefined,
+    rowCount: d.rowCount ?? 0,
+    from: toOptionalDate(d.from),
+    to: toOptionalDate(d.to),
+    importedAt: toOptionalDate(d.importedAt) ?? toOptionalDate(d.createdAt) ?? new Date(0),
+    status: d.status === "rolledBack" ? "rolledBack" : "active",
+    rolledBackAt: toOptionalDate(d.rolledBackAt) ?? undefined,
+  };
+}
+
+// ---------- Preview Rows ----------
+
+// Statement dates the model couldn't read fall back to today
+function statementDate(input: string): Date {
+  const parsed = new Date(input);
+  return isNaN(parsed.valueOf()) ? new Date() : parsed;
+}
+
+/**
+ * Turns extracted statement lines into preview rows, pre-filled by the
+ * user's rules, then the learned classifier, then a catch-all category.
+ */
+export async function buildImportRows(
+  uid: string,
+  extracted: ExtractedTransaction[],
+  aliases: MerchantAlias[]
+): Promise<ImportRow[]> {
+  const [rules, incomeModel, expenseModel] = await Promise.all([
+    fetchRules(uid),
+    loadClassifier(uid, "income"),
+    loadClassifier(uid, "expense"),
+  ]);
+
+  return extracted.map((tx, key) => {
+    const kind: TransactionKind = tx.classifiedAs?.toLowerCase() === "income" ? "income" : "expense";
+    const amount = Math.abs(Number(tx.amount));
+    const merchant = normalizeMerchant(aliases, tx.description);
+    const outcome = applyRules(rules, {
+      description: tx.description,
+      merchant,
+      amount,
+      direction: kind === "income" ? "credit" : "debit",
+    });
+    // Explicit rules win; otherwise learn from how the user categorized similar lines
+    const learned = predictCategory(kind === "income" ? incomeModel : expenseModel, tx.description, amount);
+
+    return {
+      key,
+      raw: tx.description,
+      date: toInputDate(statementDate(tx.date)),
+      description: outcome.rename ?? tx.description,
+      amount: String(amount),
+      kind,
+      category: outcome.category ?? learned?.category ?? (kind === "income" ? "Other" : "Misc"),
+      tags: outcome.tags,
+      merchant,
+      externalId: tx.externalId,
+      selected: true,
+      duplicate: false,
+    };
+  });
+}
+
+export function validateImportRow(row: ImportRow): ImportRowErrors {
+  const errors: ImportRowErrors = {};
+  const amount = Number(row.amount);
+
+  if (!parseInputDate(row.date)) errors.date = "Enter a valid date";
+  if (!row.amount.trim() || !isFinite(amount) || amount <= 0) errors.amount = "Enter an amount above 0";
+  if (!row.category.trim()) errors.category = "Pick a category";
+  return errors;
+}
+
+/** What duplicate detection compares for a row. */
+export const duplicateCandidate = (row: ImportRow, account: string): FingerprintInput => ({
+  date: parseInputDate(row.date) ?? new Date(NaN),
+  amount: Number(row.amount) || 0,
+  description: row.raw,
+  account,
+  externalId: row.externalId,
+});
+
+export const rowFingerprint = (row: ImportRow, account: string) =>
+  transactionFingerprint(duplicateCandidate(row, account));
+
+/** The transaction a valid row saves as. */
+export function toNewTransaction(row: ImportRow, account: string, importBatchId: string): NewTransaction {
+  return {
+    amount: Number(row.amount),
+    category: row.category,
+    title: row.description,
+    merchant: row.merchant,
+    account,
+    fingerprint: rowFingerprint(row, account),
+    importBatchId,
+    tags: row.tags,
+    date: parseInputDate(row.date)!,
+  };
+}
+
+// ---------- Queries ----------
+
+/** A user's import batches, newest first. */
+export async function fetchImportBatches(uid: string): Promise<ImportBatch[]> {
+  const docs = await store.list(IMPORT_BATCHES_COLLECTION, [{ field: "userId", op: "==", value: uid }]);
+  return docs.map(fromDoc).sort((a, b) => b.importedAt.getTime() - a.importedAt.getTime());
+}
+
+/** The most recent live batch created from a file with this hash, if any. */
+export async function findImportBatchByHash(uid: string, fileHash: string): Promise<ImportBatch | null> {
+  const batches = await fetchImportBatches(uid);
+  return batches.find((b) => b.fileHash === fileHash && b.status === "active") ?? null;
+}
+
+// ---------- Writes ----------
+
+/** Opens a batch before its rows are saved; each saved chunk bumps `rowCount`. */
+export async function createImportBatch(uid: string, input: NewImportBatch): Promise<string> {
+  return store.add(IMPORT_BATCHES_COLLECTION, {
+    ...input,
+    account: input.account?.trim() || undefined,
+    userId: uid,
+    rowCount: 0,
+    importedAt: new Date(),
+    status: "active",
+  });
+}
+
+export function chunkRows<T>(rows: T[], size = IMPORT_CHUNK_SIZE): T[][] {
+  const chunks: T[][] = [];
+  for (let i = 0; i < rows.length; i += size) chunks.push(rows.slice(i, i + size));
+  return chunks;
+}
+
+/**
+ * Saves one chunk of rows and the batch's new row count in a single atomic
+ * write, so a failed chunk leaves neither transactions nor a wrong count behind.
+ */
+export async function saveImportChunk(
+  uid: string,
+  batchId: string,
+  rows: ImportRow[],
+  account: string,
+  savedBefore: number,
+  context: ChangeContext = {}
+): Promise<void> {
+  await addTransactions(
+    uid,
+    rows.map((row) => ({ kind: row.kind, input: toNewTransaction(row, account, batchId) })),
+    { ...context, source: "import" },
+    [
+      {
+        op: "update",
+        collection: IMPORT_BATCHES_COLLECTION,
+        id: batchId,
+        patch: { rowCount: savedBefore + rows.length },
+      },
+    ]
+  );
+}
+
+/** Removes a batch that no row was saved into, so it doesn't linger as an empty import. */
+export async function discardImportBatch(batchId: string): Promise<void> {
+  await store.remove(IMPORT_BATCHES_COLLECTION, batchId);
+}
+
+/**
+ * Moves every transaction from a batch to the trash, in atomic chunks that
+ * each carry their history entries. The batch is marked rolled back with the
+ * last chunk, so a rollback that fails halfway stays active and can simply be
+ * run again. Resolves with the number trashed.
+ */
+export async function rollbackImportBatch(
+  uid: string,
+  batchId: string,
+  context: ChangeContext = {}
+): Promise<number> {
+  const rolledBack: { id: string; kind: TransactionKind }[] = [];
+
+  for (const kind of Object.keys(COLLECTIONS) as TransactionKind[]) {
+    const docs = await store.list(COLLECTIONS[kind], [
+      { field: "userId", op: "==", value: uid },
+      { field: "importBatchId", op: "==", value: batchId },
+    ]);
+    for (const doc of docs) {
+      if (doc.data.deletedAt) continue; // Already in the trash
+      rolledBack.push({ id: doc.id, kind });
+    }
+  }
+
+  const deletedAt = new Date();
+  const chunks = chunkRows(rolledBack);
+  if (chunks.length === 0) chunks.push([]);
+
+  try {
+    for (const [i, chunk] of chunks.entries()) {
+      const writes: BatchWrite[] = chunk.flatMap(({ id, kind }) => [
+        { op: "update" as const, collection: COLLECTIONS[kind], id, patch: { deletedAt } },
+        transactionChangeWrite({
+          transactionId: id,
+          kind,
+          userId: uid,
+          actorId: uid,
+          actorName: context.actorName,
+          action: "delete",
+          source: context.source ?? "import",
+          changes: [],
+        }),
+      ]);
+      if (i === chunks.length - 1) {
+        writes.push({
+          op: "update",
+          collection: IMPORT_BATCHES_COLLECTION,
+          id: batchId,
+          patch: { status: "rolledBack", rolledBackAt: deletedAt },
+        });
+      }
+      await store.batch(writes);
+    }
+  } finally {
+    // Chunks written before a failure are in the trash already
+    if (rolledBack.length > 0) invalidateTransactions(uid);
+  }
+  return rolledBack.length;
+}
@@ -0,0 +1,315 @@
+import * as xlsx from "xlsx";
+import type { ExtractedTransaction } from "@/lib/imports";
+import { store, StoredDoc } from "@/lib/storage";
+
+// ---------- Types ----------
+export type DateFormat = "DD/MM/YYYY" | "MM/DD/YYYY" | "YYYY-MM-DD" | "DD-MMM-YYYY";
+
+// "signed": one amount column, negative (or marked Dr in `typeColumn`) = debit.
+// "split": separate debit and credit columns.
+export type AmountMode = "signed" | "split";
+
+// Column positions are 0-based indexes into the sheet's rows
+export interface ColumnMapping {
+  headerRow: number;
+  dateColumn: number;
+  descriptionColumn: number;
+  amountMode: AmountMode;
+  amountColumn: number | null;
+  typeColumn: number | null; // Optional Dr/Cr indicator next to a signed amount
+  debitColumn: number | null;
+  creditColumn: number | null;
+  dateFormat: DateFormat;
+}
+
+// A mapping remembered for one bank, recognised again by its header row
+export interface BankMapping {
+  id: string;
+  userId: string;
+  bankName: string;
+  headerSignature: string;
+  mapping: ColumnMapping;
+}
+
+export type SheetRows = string[][];
+
+// One sheet of an uploaded workbook
+export interface WorkbookSheet {
+  name: string;
+  rows: SheetRows;
+  transactionCount: number; // Lines a guessed mapping reads from it; 0 = not a transaction table
+}
+
+export const BANK_MAPPINGS_COLLECTION = "bankMappings";
+
+export const DATE_FORMATS: DateFormat[] = ["DD/MM/YYYY", "MM/DD/YYYY", "YYYY-MM-DD", "DD-MMM-YYYY"];
+
+const MONTHS = ["jan", "feb", "mar", "apr", "may", "jun", "jul", "aug", "sep", "oct", "nov", "dec"];
+
+// Only this many leading rows are searched for a header (bank letterheads come first)
+const HEADER_SEARCH_ROWS = 30;
+
+// ---------- Reading ----------
+
+function toRows(sheet: xlsx.WorkSheet): SheetRows {
+  // Real date cells would display in the file's own format, often a US "m/d/yy"
+  for (const address of Object.keys(sheet)) {
+    const cell = sheet[address] as xlsx.CellObject;
+    if (!address.startsWith("!") && cell.t === "d" && cell.v instanceof Date) cell.w = toIsoDate(cell.v);
+  }
+  return xlsx.utils
+    .sheet_to_json<unknown[]>(sheet, { header: 1, raw: false, defval: "" })
+    .map((row) => row.map((cell) => String(cell ?? "").trim()));
+}
+
+/**
+ * Every non-empty sheet of a CSV/XLS(X) file, as display strings exactly as the
+ * bank formatted them (real date cells as yyyy-mm-dd), scored by how much each
+ * looks like a transaction table.
+ */
+export function readWorkbook(data: ArrayBuffer): WorkbookSheet[] {
+  // raw: CSV cells stay as typed instead of being reinterpreted as US-style dates;
+  // cellDates: spreadsheet date cells come back as dates rather than serial numbers
+  const workbook = xlsx.read(data, { type: "array", raw: true, cellDates: true });
+  return workbook.SheetNames.map((name) => {
+    const rows = toRows(workbook.Sheets[name]);
+    return { name, rows, transactionCount: applyMapping(rows, guessMapping(rows)).length };
+  }).filter((sheet) => sheet.rows.length > 0);
+}
+
+/** Sheets to import by default: every transaction table, or the first sheet when none looks like one. */
+export function detectTransactionSheets(sheets: WorkbookSheet[]): string[] {
+  const tables = sheets.filter((s) => s.transactionCount > 0).map((s) => s.name);
+  return tables.length > 0 ? tables : sheets.slice(0, 1).map((s) => s.name);
+}
+
+const normalizeHeader = (cell: string) => cell.toLowerCase().replace(/[^a-z0-9]+/g, " ").trim();
+
+/**
+ * Header cells in a layout-stable form, so the next statement from the same
+ * bank matches. Trailing blanks are dropped since sheet widths vary.
+ */
+export const headerSignature = (header: string[]) =>
+  header.map(normalizeHeader).join("|").replace(/\|+$/, "");
+
+/** First row that looks like a header: several filled cells, one of them about the date. */
+export function detectHeaderRow(rows: SheetRows): number {
+  const index = rows
+    .slice(0, HEADER_SEARCH_ROWS)
+    .findIndex((row) => row.filter(Boolean).length >= 3 && row.some((c) => /date/i.test(c)));
+  return Math.max(index, 0);
+}
+
+// Index of the row near the top whose header has this signature, or -1
+const findHeaderRow = (rows: SheetRows, signature: string) =>
+  rows.slice(0, HEADER_SEARCH_ROWS).findIndex((row) => headerSignature(row) === signature);
+
+// ---------- Guessing ----------
+const findColumn = (header: string[], pattern: RegExp) => {
+  const index = header.findIndex((cell) => pattern.test(cell));
+  return index === -1 ? null : index;
+};
+
+/** Best-effort starting point for the wizard from common Indian bank headers. */
+export function guessMapping(rows: SheetRows, headerRow = detectHeaderRow(rows)): ColumnMapping {
+  const header = rows[headerRow] ?? [];
+  const debitColumn = findColumn(header, /withdraw|debit|\bdr\b/i);
+  const creditColumn = findColumn(header, /deposit|credit|\bcr\b/i);
+  const split = debitColumn !== null && creditColumn !== null && debitColumn !== creditColumn;
+  const dateColumn =
+    findColumn(header, /txn date|transaction date|^date/i) ?? findColumn(header, /date/i) ?? 0;
+
+  return {
+    headerRow,
+    dateColumn,
+    descriptionColumn: findColumn(header, /narration|description|particulars|remarks|details/i) ?? 1,
+    amountMode: split ? "split" : "signed",
+    amountColumn: split ? null : findColumn(header, /amount/i),
+    typeColumn: split ? null : findColumn(header, /^(dr ?\/ ?cr|cr ?\/ ?dr|type)$/i),
+    debitColumn: split ? debitColumn : null,
+    creditColumn: split ? creditColumn : null,
+    dateFormat: guessDateFormat(rows.slice(headerRow + 1).map((row) => row[dateColumn] ?? "")),
+  };
+}
+
+function guessDateFormat(samples: string[]): DateFormat {
+  const values = samples.filter(Boolean).slice(0, 20);
+  if (values.some((v) => /^\d{4}-\d{1,2}-\d{1,2}/.test(v))) return "YYYY-MM-DD";
+  if (values.some((v) => /[a-z]{3}/i.test(v))) return "DD-MMM-YYYY";
+  // A middle part above 12 can only be a day
+  if (values.some((v) => Number(v.split(/[/\-.]/)[1]) > 12)) return "MM/DD/YYYY";
+  return "DD/MM/YYYY";
+}
+
+// ---------- Parsing ----------
+
+/**
+ * Parses a cell in the given format to a local date, or null. Two-digit years are
+ * 20xx; a yyyy-mm-dd cell (how real spreadsheet dates are read) fits any format.
+ */
+export function parseStatementDate(value: string, format: DateFormat): Date | null {
+  const parts = value.trim().split(/[\s/\-.,]+/).filter(Boolean);
+  if (parts.length < 3) return null;
+
+  let day: number, month: number, year: number;
+  if (format === "YYYY-MM-DD" || /^\d{4}-\d{2}-\d{2}$/.test(value.trim())) [year, month, day] = parts.map(Number);
+  else if (format === "MM/DD/YYYY") [month, day, year] = parts.map(Number);
+  else if (format === "DD-MMM-YYYY") {
+    day = Number(parts[0]);
+    month = MONTHS.indexOf(parts[1].slice(0, 3).toLowerCase()) + 1;
+    year = Number(parts[2]);
+  } else [day, month, year] = parts.map(Number);
+
+  if (year < 100) year += 2000;
+  const date = new Date(year, month - 1, day);
+  const valid =
+    !isNaN(date.getTime()) && date.getDate() === day && date.getMonth() === month - 1 && month > 0;
+  return valid ? date : null;
+}
+
+/** Parses "1,234.50", "₹ 1,234.50", "(1,234.50)", "1234.50 Dr" into a signed number, or null. */
+export function parseStatementAmount(value: string): number | null {
+  const text = value.trim();
+  if (!text) return null;
+
+  const negative = /^\(.*\)$/.test(text) || /^-/.test(text) || /\bdr\.?$/i.test(text);
+  const digits = text.replace(/[^0-9.]/g, "");
+  if (!digits || isNaN(Number(digits))) return null;
+
+  const amount = Number(digits);
+  return negative ? -amount : amount;
+}
+
+const toIsoDate = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, "0")}-${String(date.getDate()).padStart(2, "0")}`;
+
+/**
+ * Statement lines under the header row. Rows without a valid date or a
+ * non-zero amount (opening balances, totals, footers) are left out.
+ */
+export function applyMapping(rows: SheetRows, mapping: ColumnMapping): ExtractedTransaction[] {
+  const result: ExtractedTransaction[] = [];
+
+  for (const row of rows.slice(mapping.headerRow + 1)) {
+    const date = parseStatementDate(row[mapping.dateColumn] ?? "", mapping.dateFormat);
+    if (!date) continue;
+
+    let amount: number | null;
+    if (mapping.amountMode === "split") {
+      const debit = parseStatementAmount(row[mapping.debitColumn ?? -1] ?? "");
+      const credit = parseStatementAmount(row[mapping.creditColumn ?? -1] ?? "");
+      amount = debit ? -Math.abs(debit) : credit ? Math.abs(credit) : null;
+    } else {
+      amount = parseStatementAmount(row[mapping.amountColumn ?? -1] ?? "");
+      const marker = row[mapping.typeColumn ?? -1] ?? "";
+      if (amount && /^(dr|debit|d)\b/i.test(marker)) amount = -Math.abs(amount);
+      else if (amount && /^(cr|credit|c)\b/i.test(marker)) amount = Math.abs(amount);
+    }
+    if (!amount) continue;
+
+    const credit = amount > 0;
+    result.push({
+      date: toIsoDate(date),
+      description: row[mapping.descriptionColumn] ?? "",
+      amount: Math.abs(amount),
+      type: credit ? "CR" : "DR",
+      classifiedAs: credit ? "Income" : "Expense",
+    });
+  }
+
+  return result;
+}
+
+/**
+ * Applies one mapping to several sheets of the same layout (e.g. one per
+ * month). Each sheet's header is found again by its signature, since
+ * letterheads can push it down; sheets without that header are skipped.
+ */
+export function applyMappingToSheets(
+  sheets: WorkbookSheet[],
+  mapping: ColumnMapping,
+  header: string[]
+): { transactions: ExtractedTransaction[]; skippedSheets: string[] } {
+  const signature = headerSignature(header);
+  const transactions: ExtractedTransaction[] = [];
+  const skippedSheets: string[] = [];
+
+  for (const sheet of sheets) {
+    const headerRow = findHeaderRow(sheet.rows, signature);
+    if (headerRow === -1) skippedSheets.push(sheet.name);
+    else transactions.push(...applyMapping(sheet.rows, { ...mapping, headerRow }));
+  }
+  return { transactions, skippedSheets };
+}
+
+/** Why a mapping can't be applied yet, or null when it is complete. */
+export function validateMapping(mapping: ColumnMapping): string | null {
+  if (mapping.dateColumn === mapping.descriptionColumn) return "Date and description must be different columns";
+  if (mapping.amountMode === "signed" && mapping.amountColumn === null) return "Pick the amount column";
+  if (mapping.amountMode === "split" && (mapping.debitColumn === null || mapping.creditColumn === null)) {
+    return "Pick both the debit and credit columns";
+  }
+  return null;
+}
+
+// ---------- Saved Mappings ----------
+function fromDoc(doc: StoredDoc): BankMapping {
+  const d = doc.data as Partial<BankMapping>;
+  return {
+    id: doc.id,
+    userId: d.userId ?? "",
+    bankName: d.bankName ?? "",
+    headerSignature: d.headerSignature ?? "",
+    mapping: d.mapping as ColumnMapping,
+  };
+}
+
+const cache = new Map<string, Promise<BankMapping[]>>();
+
+/** A user's saved bank mappings (cached per user). */
+export function fetchBankMappings(uid: string): Promise<BankMapping[]> {
+  let result = cache.get(uid);
+  if (!result) {
+    result = store
+      .list(BANK_MAPPINGS_COLLECTION, [{ field: "userId", op: "==", value: uid }])
+      .then((docs) => docs.map(fromDoc).filter((m) => m.mapping));
+    cache.set(uid, result);
+    result.catch(() => cache.delete(uid));
+  }
+  return result;
+}
+
+/**
+ * Finds a saved mapping whose header appears near the top of the sheet and
+ * returns it pointed at the row where that header was found this time.
+ */
+export function matchBankMapping(
+  mappings: BankMapping[],
+  rows: SheetRows
+): { bank: BankMapping; mapping: ColumnMapping } | null {
+  for (const bank of mappings) {
+    const headerRow = findHeaderRow(rows, bank.headerSignature);
+    if (headerRow !== -1) return { bank, mapping: { ...bank.mapping, headerRow } };
+  }
+  return null;
+}
+
+/** Remembers a mapping under a bank name, replacing that bank's previous one. */
+export async function saveBankMapping(
+  uid: string,
+  bankName: string,
+  mapping: ColumnMapping,
+  header: string[]
+): Promise<void> {
+  const name = bankName.trim();
+  if (!name) throw new Error("Bank name is required");
+
+  const existing = (await fetchBankMappings(uid)).find(
+    (m) => m.bankName.toLowerCase() === name.toLowerCase()
+  );
+  const data = { bankName: name, headerSignature: headerSignature(header), mapping };
+
+  if (existing) await store.update(BANK_MAPPINGS_COLLECTION, existing.id, data);
+  else await store.add(BANK_MAPPINGS_COLLECTION, { ...data, userId: uid });
+  cache.delete(uid);
+}
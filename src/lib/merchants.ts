@@ -0,0 +1,206 @@
+import { store, StoredDoc } from "@/lib/storage";
+import type { Transaction } from "@/lib/transactions";
+
+// ---------- Types ----------
+
+// Maps a merchant name as extracted from bank descriptions to the name the user prefers
+export interface MerchantAlias {
+  id: string;
+  userId: string;
+  merchant: string;
+  alias: string;
+}
+
+export interface MerchantTotal {
+  merchant: string;
+  total: number;
+  count: number;
+}
+
+export const MERCHANT_ALIASES_COLLECTION = "merchantAliases";
+
+// Payment rails whose descriptions carry the counterparty between reference fields
+const CHANNELS = ["UPI", "NEFT", "IMPS", "RTGS"];
+
+// Segments that are never the merchant: direction flags, transfer modes, purposes
+const NOISE_SEGMENTS = new Set([
+  "DR", "CR", "P2A", "P2P", "P2M", "MOB", "INB", "PAYMENT", "PAY", "COLLECT", "SENT", "RECEIVED", "NA",
+]);
+
+// Common 4-letter bank prefixes (IFSC / UPI handle banks) seen as standalone segments
+const BANK_CODES = new Set([
+  "YESB", "HDFC", "ICIC", "SBIN", "UTIB", "KKBK", "PUNB", "BARB", "IDIB", "CNRB", "UBIN",
+  "INDB", "PYTM", "AIRP", "FDRL", "IDFB", "CIUB", "KARB", "MAHB", "IOBA", "AUBL", "ESFB",
+]);
+
+// Trailing words that vary between statements of the same merchant
+const LEGAL_SUFFIXES = /\b(pvt|private|ltd|limited|llp|inc|co)\b\.?/gi;
+const TRAILING_CITIES =
+  /\s+(mumbai|delhi|new delhi|bangalore|bengaluru|chennai|kolkata|hyderabad|pune|gurgaon|gurugram|noida|ahmedabad|jaipur)$/i;
+
+// ---------- Extraction ----------
+const isReference = (segment: string) =>
+  /\d{4,}/.test(segment) || // Reference numbers, masked card numbers
+  /^[A-Z]{4}0[A-Z0-9]{6}$/i.test(segment) || // IFSC
+  segment.includes("@") || // UPI VPA
+  /x{4,}/i.test(segment);
+
+/** Title-cased merchant name without legal suffixes, e.g. "ZOMATO PVT LTD" → "Zomato". */
+export function cleanMerchantName(raw: string): string {
+  const cleaned = raw
+    .replace(LEGAL_SUFFIXES, " ")
+    .replace(/[^\p{L}\p{N}&' ]+/gu, " ")
+    .replace(/\s+/g, " ")
+    .trim()
+    .replace(TRAILING_CITIES, "");
+
+  return cleaned.toLowerCase().replace(/\b\p{L}/gu, (c) => c.toUpperCase());
+}
+
+// UPI/NEFT/IMPS/RTGS: the first segment that isn't a flag, reference or bank code
+function fromTransfer(description: string): string | null {
+  const segments = description.split(/[/\-:|]/).map((s) => s.trim()).filter(Boolean);
+  for (const segment of segments.slice(1)) {
+    const upper = segment.toUpperCase();
+    if (CHANNELS.includes(upper) || NOISE_SEGMENTS.has(upper) || BANK_CODES.has(upper)) continue;
+    if (isReference(segment) || !/\p{L}{2,}/u.test(segment)) continue;
+    return segment;
+  }
+
+  // Only a VPA: fall back to its handle, e.g. "zomato@ybl" → "zomato"
+  const vpa = segments.find((s) => s.includes("@"));
+  return vpa ? vpa.split("@")[0].replace(/[._\d]+/g, " ") : null;
+}
+
+// Card swipes: "POS 4591XXXXXX1234 BIG BAZAAR MUMBAI" or "POS/BIG BAZAAR/MUMBAI"
+function fromCardPayment(description: string): string | null {
+  const words = description
+    .replace(/^(POS|ECOM|PCD)\b/i, "")
+    .split(/[\s/]+/)
+    .filter((w) => w && !isReference(w) && !/^\d+$/.test(w));
+  return words.length ? words.join(" ") : null;
+}
+
+/**
+ * Canonical merchant name from a raw bank-statement description, or null when
+ * the description doesn't follow a recognised UPI, NEFT, IMPS, RTGS or POS format.
+ */
+export function extractMerchant(description: string): string | null {
+  const text = description.trim();
+  const channel = text.split(/[\s/\-:|]/)[0].toUpperCase();
+
+  let raw: string | null = null;
+  if (CHANNELS.includes(channel)) raw = fromTransfer(text);
+  else if (["POS", "ECOM", "PCD"].includes(channel)) raw = fromCardPayment(text);
+  if (!raw) return null;
+
+  const name = cleanMerchantName(raw);
+  return name || null;
+}
+
+// ---------- Aliases ----------
+
+// Case- and punctuation-insensitive key, so "Zomato" and "ZOMATO." share an alias
+export const merchantKey = (name: string) => name.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, "");
+
+export function resolveMerchant(aliases: MerchantAlias[], merchant: string): string {
+  const key = merchantKey(merchant);
+  return aliases.find((a) => merchantKey(a.merchant) === key)?.alias ?? merchant;
+}
+
+/** Extracts and aliases in one step; what import paths store as `merchant`. */
+export function normalizeMerchant(aliases: MerchantAlias[], description: string): string | undefined {
+  const merchant = extractMerchant(description);
+  return merchant ? resolveMerchant(aliases, merchant) : undefined;
+}
+
+// Transactions saved before merchants were stored fall back to their description
+export function merchantOf(aliases: MerchantAlias[], t: Transaction): string | undefined {
+  return t.merchant ? resolveMerchant(aliases, t.merchant) : normalizeMerchant(aliases, t.title ?? "");
+}
+
+// ---------- Reports ----------
+
+/** Merchants ranked by total amount across the given transactions. */
+export function topMerchants(
+  aliases: MerchantAlias[],
+  transactions: Transaction[],
+  limit = 10
+): MerchantTotal[] {
+  const totals = new Map<string, MerchantTotal>();
+
+  for (const t of transactions) {
+    const merchant = merchantOf(aliases, t);
+    if (!merchant) continue;
+
+    const entry = totals.get(merchant) ?? { merchant, total: 0, count: 0 };
+    entry.total += t.amount;
+    entry.count++;
+    totals.set(merchant, entry);
+  }
+
+  return [...totals.values()].sort((a, b) => b.total - a.total).slice(0, limit);
+}
+
+// ---------- Queries ----------
+function fromDoc(doc: StoredDoc): MerchantAlias {
+  const d = doc.data as Partial<MerchantAlias>;
+  return {
+    id: doc.id,
+    userId: d.userId ?? "",
+    merchant: d.merchant ?? "",
+    alias: d.alias ?? "",
+  };
+}
+
+const cache = new Map<string, Promise<MerchantAlias[]>>();
+
+/** A user's merchant aliases (cached per user). */
+export function fetchMerchantAliases(uid: string): Promise<MerchantAlias[]> {
+  let result = cache.get(uid);
+  if (!result) {
+    result = store
+      .list(MERCHANT_ALIASES_COLLECTION, [{ field: "userId", op: "==", value: uid }])
+      .then((docs) => docs.map(fromDoc).sort((a, b) => a.merchant.localeCompare(b.merchant)));
+    cache.set(uid, result);
+    result.catch(() => cache.delete(uid));
+  }
+  return result;
+}
+
+// ---------- Writes ----------
+
+/**
+ * Shows `merchant` as `alias` from now on. Re-aliasing a merchant replaces
+ * its previous alias, and anything already aliased to `merchant` follows it.
+ */
+export async function setMerchantAlias(uid: string, merchant: string, alias: string): Promise<void> {
+  const from = merchant.trim();
+  const to = alias.trim();
+  if (!from) throw new Error("Merchant is required");
+  if (!to) throw new Error("Alias is required");
+
+  const existing = await fetchMerchantAliases(uid);
+  const key = merchantKey(from);
+
+  // Aliasing a name to itself just removes the alias
+  for (const a of existing.filter((a) => merchantKey(a.merchant) === key)) {
+    await store.remove(MERCHANT_ALIASES_COLLECTION, a.id);
+  }
+  if (merchantKey(to) !== key) {
+    await store.add(MERCHANT_ALIASES_COLLECTION, { userId: uid, merchant: from, alias: to });
+  }
+
+  // Keep chains one level deep: A → B plus B → C becomes A → C
+  for (const a of existing.filter((a) => merchantKey(a.alias) === key)) {
+    if (merchantKey(a.merchant) === merchantKey(to)) await store.remove(MERCHANT_ALIASES_COLLECTION, a.id);
+    else await store.update(MERCHANT_ALIASES_COLLECTION, a.id, { alias: to });
+  }
+
+  cache.delete(uid);
+}
+
+export async function deleteMerchantAlias(uid: string, id: string): Promise<void> {
+  await store.remove(MERCHANT_ALIASES_COLLECTION, id);
+  cache.delete(uid);
+}
@@ -0,0 +1,60 @@
+import { updateUserSettings } from "@/lib/settings";
+import { BatchWrite, MAX_BATCH_WRITES, store } from "@/lib/storage";
+import {
+  COLLECTIONS,
+  invalidateTransactions,
+  toDate,
+  toMonthKey,
+  TransactionKind,
+} from "@/lib/transactions";
+
+export interface DateMigrationResult {
+  scanned: number;
+  updated: number;
+  invalid: string[]; // "<collection>/<id>" of documents whose date can't be parsed
+}
+
+/**
+ * Rewrites a user's incomes and expenses to the canonical date schema:
+ * `date` as a Timestamp (ISO strings and epoch numbers are converted) and a
+ * matching `month` bucket key, in batched writes. Safe to run repeatedly; the
+ * user's `datesMigrated` flag is set once a run finds no unreadable date.
+ */
+export async function migrateTransactionDates(uid: string): Promise<DateMigrationResult> {
+  const result: DateMigrationResult = { scanned: 0, updated: 0, invalid: [] };
+  const kinds = Object.keys(COLLECTIONS) as TransactionKind[];
+  const writes: BatchWrite[] = [];
+
+  for (const kind of kinds) {
+    const collection = COLLECTIONS[kind];
+    const docs = await store.list(collection, [{ field: "userId", op: "==", value: uid }]);
+
+    for (const { id, data } of docs) {
+      result.scanned++;
+
+      const date = toDate(data.date);
+      if (!date) {
+        result.invalid.push(`${collection}/${id}`);
+        continue;
+      }
+
+      const month = toMonthKey(date);
+      if (data.date instanceof Date && data.month === month) continue;
+
+      writes.push({ op: "update", collection, id, patch: { date, month } });
+    }
+  }
+
+  try {
+    for (let i = 0; i < writes.length; i += MAX_BATCH_WRITES) {
+      const chunk = writes.slice(i, i + MAX_BATCH_WRITES);
+      await store.batch(chunk);
+      result.updated += chunk.length;
+    }
+  } finally {
+    if (result.updated > 0) invalidateTransactions(uid);
+  }
+
+  if (result.invalid.length === 0) await updateUserSettings(uid, { datesMigrated: true });
+  return result;
+}
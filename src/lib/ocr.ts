@@ -0,0 +1,152 @@
+import path from "path";
+import { createCanvas } from "@napi-rs/canvas";
+import type { PDFPageProxy } from "pdfjs-dist";
+import type { TextItem } from "pdfjs-dist/types/src/display/api";
+import { fetchGeminiWithInlineData } from "@/lib/gemini";
+
+// ---------- Types ----------
+export interface OcrProvider {
+  id: string;
+  name: string; // Shown on the upload page
+  /** Text of each PNG page image, in order. */
+  recognize(images: Buffer[]): Promise<string[]>;
+}
+
+export interface PdfOcrResult {
+  text: string; // Whole document in page order, scanned pages replaced by their OCR text
+  ocrPages: number[]; // 1-based
+  provider: string;
+}
+
+// A page with fewer characters than this in its text layer is treated as a scan
+const MIN_PAGE_TEXT = 20;
+
+// Render at 2× the PDF's 72 dpi; small statement print needs the detail
+const RENDER_SCALE = 2;
+
+// English data ships with the app (@tesseract.js-data/eng) so OCR never reaches a CDN;
+// OCR_LANG_PATH points at a folder of <lang>.traineddata.gz files for other languages
+const TESSERACT_LANG_PATH =
+  process.env.OCR_LANG_PATH || path.join(process.cwd(), "node_modules", "@tesseract.js-data", "eng", "4.0.0");
+
+const OCR_PROMPT = `
+Transcribe every line of text on this bank statement page exactly as printed.
+Keep each table row on one line with its columns separated by spaces, in reading order.
+Output only the transcribed text.
+`.trim();
+
+// ---------- Providers ----------
+
+// Runs locally; OCR_LANGUAGES takes Tesseract language codes like "eng+hin"
+export const tesseractOcr: OcrProvider = {
+  id: "tesseract",
+  name: "Tesseract",
+  recognize: async (images) => {
+    const { createWorker } = await import("tesseract.js");
+    const worker = await createWorker(process.env.OCR_LANGUAGES || "eng", undefined, {
+      langPath: TESSERACT_LANG_PATH,
+      cacheMethod: "none", // Read in place; don't copy language data into the working directory
+    });
+    try {
+      const texts: string[] = [];
+      for (const image of images) texts.push((await worker.recognize(image)).data.text);
+      return texts;
+    } finally {
+      await worker.terminate();
+    }
+  },
+};
+
+export const geminiOcr: OcrProvider = {
+  id: "gemini",
+  name: "Gemini vision",
+  recognize: async (images) => {
+    const texts: string[] = [];
+    for (const image of images) {
+      texts.push(
+        await fetchGeminiWithInlineData({
+          base64: image.toString("base64"),
+          mimeType: "image/png",
+          prompt: OCR_PROMPT,
+          maxOutputTokens: 8192,
+        })
+      );
+    }
+    return texts;
+  },
+};
+
+/** Selected with OCR_PROVIDER ("tesseract" by default, or "gemini"). */
+export const ocrProvider = (): OcrProvider => (process.env.OCR_PROVIDER === "gemini" ? geminiOcr : tesseractOcr);
+
+// ---------- PDF Pages ----------
+
+/**
+ * Whether pdf-parse's text (pages joined by blank lines) has a page too thin
+ * to be a real text layer, i.e. whether the PDF is worth running OCR on.
+ */
+export function hasScannedPages(pdfText: string): boolean {
+  const pages = pdfText.split("\n\n").slice(1);
+  return pages.length === 0 || pages.some((page) => page.replace(/\s/g, "").length < MIN_PAGE_TEXT);
+}
+
+// Lines rebuilt from text items the way pdf-parse does: a new line whenever the baseline moves
+function pageText(items: TextItem[]): string {
+  let text = "";
+  let lastY: number | null = null;
+  for (const item of items) {
+    const y = item.transform[5];
+    text += lastY === null || y === lastY ? item.str : `\n${item.str}`;
+    lastY = y;
+  }
+  return text;
+}
+
+async function renderPage(page: PDFPageProxy): Promise<Buffer> {
+  const viewport = page.getViewport({ scale: RENDER_SCALE });
+  const canvas = createCanvas(Math.ceil(viewport.width), Math.ceil(viewport.height));
+  // @napi-rs/canvas implements the parts of the DOM canvas API pdf.js draws with
+  await page.render({
+    canvas: canvas as unknown as HTMLCanvasElement,
+    canvasContext: canvas.getContext("2d") as unknown as CanvasRenderingContext2D,
+    viewport,
+  }).promise;
+  return canvas.encode("png");
+}
+
+/**
+ * Finds pages without a text layer (scans), renders them to images and runs
+ * OCR on them. Resolves with null when every page has text, so the regular
+ * extraction stands; otherwise with the whole document's text in page order.
+ */
+export async function ocrScannedPages(
+  buffer: Buffer,
+  password?: string,
+  provider: OcrProvider = ocrProvider()
+): Promise<PdfOcrResult | null> {
+  const pdfjs = await import("pdfjs-dist/legacy/build/pdf.mjs");
+  const doc = await pdfjs.getDocument({ data: new Uint8Array(buffer), password, isEvalSupported: false })
+    .promise;
+
+  try {
+    const texts: string[] = [];
+    const scanned: number[] = [];
+    for (let n = 1; n <= doc.numPages; n++) {
+      const content = await (await doc.getPage(n)).getTextContent();
+      const text = pageText(content.items.filter((item): item is TextItem => "str" in item));
+      texts.push(text);
+      if (text.replace(/\s/g, "").length < MIN_PAGE_TEXT) scanned.push(n);
+    }
+    if (scanned.length === 0) return null;
+
+    const images: Buffer[] = [];
+    for (const n of scanned) images.push(await renderPage(await doc.getPage(n)));
+    const recognized = await provider.recognize(images);
+    scanned.forEach((n, i) => (texts[n - 1] = recognized[i] ?? ""));
+
+    // Pages separated like pdf-parse's output, so the same parsers and chunking apply
+    return { text: texts.map((t) => `\n\n${t}`).join(""), ocrPages: scanned, provider: provider.name };
+  } finally {
+    await doc.destroy();
+  }
+}
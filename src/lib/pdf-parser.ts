@@ -1,24 +1,51 @@
 import { Buffer } from 'buffer';
 
+// pdf.js PasswordResponses: no password given / the given one is wrong
+const NEED_PASSWORD = 1;
+const INCORRECT_PASSWORD = 2;
+
+export type PdfPasswordStatus = 'required' | 'incorrect';
+
+/**
+ * Whether `parsePdf` failed because the PDF is encrypted, and if so whether a
+ * password was missing or wrong. Null for any other error.
+ */
+export function pdfPasswordStatus(error: unknown): PdfPasswordStatus | null {
+  const code = (error as { code?: unknown } | null)?.code;
+  if (code === 'PDF_PASSWORD_REQUIRED') return 'required';
+  if (code === 'PDF_PASSWORD_INCORRECT') return 'incorrect';
+  return null;
+}
+
 /**
  * Custom PDF parser that uses pdf-parse but avoids the test file path issue
  * @param buffer The PDF file buffer
+ * @param password Opens encrypted statements; used in memory only, never stored or logged
  * @returns The extracted text from the PDF
  */
-export async function parsePdf(buffer: Buffer): Promise<string> {
+export async function parsePdf(buffer: Buffer, password?: string): Promise<string> {
   try {
     // Import the core pdf-parse module directly
     const pdfParseCore = require('pdf-parse/lib/pdf-parse.js');
     
-    // Use the core module with our buffer
-    const parsed = await pdfParseCore(buffer, {
+    // pdf-parse hands its first argument to pdf.js getDocument, which also takes a password.
+    // pdf.js misreads Node Buffers passed as `data`, so hand it a plain byte array.
+    const parsed = await pdfParseCore({ data: new Uint8Array(buffer), password }, {
       max: 0, // Parse all pages
       version: 'v2.0.550' // Use a specific version
     });
     
     return parsed.text;
   } catch (error) {
+    const { name, code } = (error ?? {}) as { name?: string; code?: number };
+    if (name === 'PasswordException') {
+      const incorrect = code === INCORRECT_PASSWORD || (code !== NEED_PASSWORD && Boolean(password));
+      throw Object.assign(new Error(incorrect ? 'Incorrect PDF password' : 'PDF is password-protected'), {
+        code: incorrect ? 'PDF_PASSWORD_INCORRECT' : 'PDF_PASSWORD_REQUIRED'
+      });
+    }
+
     console.error('PDF parsing error:', error);
     throw new Error(`Failed to parse PDF: ${error instanceof Error ? error.message : 'Unknown error'}`);
   }
-}
\ No newline at end of file
+}
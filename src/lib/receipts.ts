@@ -0,0 +1,88 @@
+// ---------- Receipt Extraction ----------
+// The typed shape `/api/amount-extract` returns for a receipt, invoice or payslip.
+
+export interface ReceiptLineItem {
+  description: string;
+  quantity: number | null;
+  unitPrice: number | null;
+  amount: number; // Line total as printed
+  category?: string; // Set by the user when this item belongs elsewhere than the expense's category
+}
+
+export interface ReceiptExtraction {
+  merchant: string | null;
+  date: string | null; // yyyy-mm-dd
+  currency: string | null; // ISO 4217, e.g. "INR"
+  subtotal: number | null;
+  tax: number | null; // GST/VAT/sales tax, all components together
+  tip: number | null;
+  total: number | null; // Final payable amount (net pay on a payslip)
+  lineItems: ReceiptLineItem[];
+  paymentMethod: string | null; // e.g. "UPI", "Card", "Cash"
+}
+
+// ---------- Parsing ----------
+
+// "1,234.50", "₹ 99", 99 → number; anything else → null
+function toAmount(value: unknown): number | null {
+  if (typeof value === "number") return isFinite(value) ? value : null;
+  if (typeof value !== "string") return null;
+  const match = value.replace(/(?<=\d),(?=\d)/g, "").match(/-?\d+(?:\.\d+)?/);
+  return match ? Number(match[0]) : null;
+}
+
+const toText = (value: unknown): string | null =>
+  typeof value === "string" && value.trim() && !/^(null|none|n\/a)$/i.test(value.trim()) ? value.trim() : null;
+
+function toIsoDate(value: unknown): string | null {
+  const match = /^(\d{4})-(\d{2})-(\d{2})/.exec(toText(value) ?? "");
+  if (!match) return null;
+  const date = new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3]));
+  return date.getDate() === Number(match[3]) ? `${match[1]}-${match[2]}-${match[3]}` : null;
+}
+
+function toLineItem(value: unknown): ReceiptLineItem | null {
+  if (!value || typeof value !== "object") return null;
+  const item = value as Record<string, unknown>;
+  const description = toText(item.description);
+  const amount = toAmount(item.amount);
+  if (!description || amount === null) return null;
+  return { description, quantity: toAmount(item.quantity), unitPrice: toAmount(item.unitPrice), amount };
+}
+
+/**
+ * Reads the model's JSON answer into a ReceiptExtraction, tolerating code
+ * fences and loosely formatted values. Throws when there is no JSON object.
+ */
+export function parseReceiptExtraction(raw: string): ReceiptExtraction {
+  const json = raw.match(/\{[\s\S]*\}/)?.[0];
+  if (!json) throw new Error("No JSON object in the receipt extraction");
+  const data = JSON.parse(json) as Record<string, unknown>;
+
+  const currency = toText(data.currency)?.toUpperCase() ?? null;
+  return {
+    merchant: toText(data.merchant),
+    date: toIsoDate(data.date),
+    currency: currency && /^[A-Z]{3}$/.test(currency) ? currency : null,
+    subtotal: toAmount(data.subtotal),
+    tax: toAmount(data.tax),
+    tip: toAmount(data.tip),
+    total: toAmount(data.total),
+    lineItems: Array.isArray(data.lineItems)
+      ? data.lineItems.map(toLineItem).filter((item): item is ReceiptLineItem => item !== null)
+      : [],
+    paymentMethod: toText(data.paymentMethod),
+  };
+}
+
+/** Merchant and item names, for running categorization rules over a receipt. */
+export function receiptText(receipt: ReceiptExtraction): string {
+  return [receipt.merchant, ...receipt.lineItems.map((item) => item.description)].filter(Boolean).join(" ");
+}
+
+/** The receipt's date as a local calendar day, or null when it has none. */
+export function receiptDate(receipt: ReceiptExtraction): Date | null {
+  if (!receipt.date) return null;
+  const [year, month, day] = receipt.date.split("-").map(Number);
+  return new Date(year, month - 1, day);
+}
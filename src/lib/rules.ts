@@ -0,0 +1,284 @@
+import { fetchUserSettings, updateUserSettings } from "@/lib/settings";
+import { BatchWrite, MAX_BATCH_WRITES, store, StoredDoc } from "@/lib/storage";
+import { sameCategoryName, Transaction, TransactionKind } from "@/lib/transactions";
+
+// ---------- Types ----------
+export type RuleField = "description" | "merchant";
+export type RuleOperator = "contains" | "regex";
+export type RuleDirection = "any" | "credit" | "debit"; // credit = income, debit = expense
+
+export interface Rule {
+  id: string;
+  userId: string;
+  name: string;
+  priority: number; // Lower runs first
+  enabled: boolean;
+  // Conditions — every one that is set must hold
+  field: RuleField;
+  operator: RuleOperator;
+  pattern: string;
+  minAmount: number | null;
+  maxAmount: number | null;
+  direction: RuleDirection;
+  // Actions
+  category: string | null;
+  tags: string[];
+  rename: string | null;
+}
+
+export type NewRule = Omit<Rule, "id" | "userId">;
+
+// What a rule is evaluated against, whatever the entry path
+export interface RuleInput {
+  description: string;
+  merchant?: string;
+  amount: number;
+  direction: Exclude<RuleDirection, "any">;
+}
+
+export interface RuleOutcome {
+  category?: string;
+  rename?: string;
+  tags: string[];
+  matched: Rule[];
+}
+
+export const RULES_COLLECTION = "rules";
+
+// Seeded once per user; these replace the keyword lists the forms used to hard-code
+const DEFAULT_RULES: [name: string, pattern: string, direction: RuleDirection, category: string][] = [
+  ["Groceries", "grocery|supermarket|mart", "debit", "Groceries"],
+  ["Food delivery & dining", "restaurant|food|cafe|dine|zomato|swiggy", "debit", "Food"],
+  ["Travel", "uber|ola|travel|taxi|flight|train|bus", "debit", "Travel"],
+  ["Rent", "rent", "debit", "Rent"],
+  ["Shopping", "shopping|store|mall|amazon|flipkart", "debit", "Shopping"],
+  ["Medical", "medical|pharma|hospital|clinic", "debit", "Medical"],
+  ["Bills & utilities", "bill|electricity|water|utility|internet", "debit", "Bills"],
+  ["Entertainment", "movie|entertainment|netflix|spotify|show", "debit", "Entertainment"],
+  ["Cash withdrawal", "atm|withdrawal", "debit", "Cash"],
+  ["Salary", "salary|payslip|ctc|net pay", "credit", "Salary"],
+  ["Freelancing", "freelance|contract|gig", "credit", "Freelancing"],
+  ["Investment returns", "dividend|interest|roi|return|capital gain", "credit", "Investments Return"],
+  ["Business income", "business|invoice|sales|revenue", "credit", "Business"],
+  ["Gifts", "gift|present|donation", "credit", "Gift"],
+];
+
+// ---------- Evaluation ----------
+function compilePattern(rule: Pick<Rule, "operator" | "pattern">): ((text: string) => boolean) | null {
+  if (!rule.pattern.trim()) return null;
+
+  if (rule.operator === "contains") {
+    const needle = rule.pattern.trim().toLowerCase();
+    return (text) => text.toLowerCase().includes(needle);
+  }
+
+  try {
+    const regex = new RegExp(rule.pattern, "i");
+    return (text) => regex.test(text);
+  } catch {
+    return null;
+  }
+}
+
+export function ruleMatches(rule: Rule, input: RuleInput): boolean {
+  if (rule.direction !== "any" && rule.direction !== input.direction) return false;
+  if (rule.minAmount !== null && input.amount < rule.minAmount) return false;
+  if (rule.maxAmount !== null && input.amount > rule.maxAmount) return false;
+
+  const test = compilePattern(rule);
+  const text = rule.field === "merchant" ? input.merchant : input.description;
+  return !!test && !!text && test(text);
+}
+
+/**
+ * Runs enabled rules in priority order. The first matching rule that sets a
+ * category (or rename) wins; tags from every matching rule are combined.
+ */
+export function applyRules(rules: Rule[], input: RuleInput): RuleOutcome {
+  const outcome: RuleOutcome = { tags: [], matched: [] };
+
+  for (const rule of [...rules].sort((a, b) => a.priority - b.priority)) {
+    if (!rule.enabled || !ruleMatches(rule, input)) continue;
+
+    outcome.matched.push(rule);
+    outcome.category ??= rule.category ?? undefined;
+    outcome.rename ??= rule.rename ?? undefined;
+    for (const tag of rule.tags) {
+      if (!outcome.tags.includes(tag)) outcome.tags.push(tag);
+    }
+  }
+
+  return outcome;
+}
+
+export const toRuleInput = (t: Transaction): RuleInput => ({
+  description: t.title ?? "",
+  merchant: t.merchant,
+  amount: t.amount,
+  direction: t.kind === "income" ? "credit" : "debit",
+});
+
+/**
+ * "Test against my history": the existing transactions a rule would match,
+ * whether or not it is enabled or saved yet.
+ */
+export function previewRule(rule: Rule, transactions: Transaction[]): Transaction[] {
+  return transactions.filter((t) => ruleMatches(rule, toRuleInput(t)));
+}
+
+// ---------- Mapping ----------
+function fromDoc(doc: StoredDoc): Rule {
+  const d = doc.data as Partial<Rule>;
+  return {
+    id: doc.id,
+    userId: d.userId ?? "",
+    name: d.name ?? "",
+    priority: d.priority ?? 0,
+    enabled: d.enabled ?? true,
+    field: d.field === "merchant" ? "merchant" : "description",
+    operator: d.operator === "regex" ? "regex" : "contains",
+    pattern: d.pattern ?? "",
+    minAmount: d.minAmount ?? null,
+    maxAmount: d.maxAmount ?? null,
+    direction: d.direction ?? "any",
+    category: d.category ?? null,
+    tags: d.tags ?? [],
+    rename: d.rename ?? null,
+  };
+}
+
+export function validateRule(input: NewRule): NewRule {
+  if (!input.name.trim()) throw new Error("Rule name is required");
+  if (!input.pattern.trim()) throw new Error("Rule pattern is required");
+  if (!compilePattern(input)) throw new Error(`Invalid regular expression: ${input.pattern}`);
+  if (input.minAmount !== null && input.maxAmount !== null && input.minAmount > input.maxAmount) {
+    throw new Error("Minimum amount cannot exceed maximum amount");
+  }
+  if (!input.category?.trim() && !input.rename?.trim() && input.tags.length === 0) {
+    throw new Error("A rule must set a category, a new name or tags");
+  }
+
+  // Listed field by field so a full `Rule` passed in never leaks its id into storage
+  return {
+    name: input.name.trim(),
+    priority: input.priority,
+    enabled: input.enabled,
+    field: input.field,
+    operator: input.operator,
+    pattern: input.pattern,
+    minAmount: input.minAmount,
+    maxAmount: input.maxAmount,
+    direction: input.direction,
+    category: input.category?.trim() || null,
+    tags: input.tags.map((t) => t.trim()).filter(Boolean),
+    rename: input.rename?.trim() || null,
+  };
+}
+
+// ---------- Queries ----------
+const cache = new Map<string, Promise<Rule[]>>();
+
+async function seedDefaultRules(uid: string) {
+  for (const [i, [name, pattern, direction, category]] of DEFAULT_RULES.entries()) {
+    await store.add(RULES_COLLECTION, {
+      userId: uid,
+      name,
+      priority: (i + 1) * 10,
+      enabled: true,
+      field: "description",
+      operator: "regex",
+      pattern,
+      minAmount: null,
+      maxAmount: null,
+      direction,
+      category,
+      tags: [],
+      rename: null,
+    });
+  }
+  await updateUserSettings(uid, { rulesSeeded: true });
+}
+
+async function loadRules(uid: string): Promise<Rule[]> {
+  const filters = [{ field: "userId", op: "==" as const, value: uid }];
+  let docs = await store.list(RULES_COLLECTION, filters);
+
+  if (docs.length === 0 && !(await fetchUserSettings(uid)).rulesSeeded) {
+    await seedDefaultRules(uid);
+    docs = await store.list(RULES_COLLECTION, filters);
+  }
+
+  return docs.map(fromDoc).sort((a, b) => a.priority - b.priority);
+}
+
+/** A user's rules in priority order (cached per user). */
+export function fetchRules(uid: string): Promise<Rule[]> {
+  let result = cache.get(uid);
+  if (!result) {
+    result = loadRules(uid);
+    cache.set(uid, result);
+    result.catch(() => cache.delete(uid));
+  }
+  return result;
+}
+
+/** Evaluates the user's rules for a manual entry, receipt or imported line. */
+export async function categorize(uid: string, input: RuleInput): Promise<RuleOutcome> {
+  return applyRules(await fetchRules(uid), input);
+}
+
+// ---------- Writes ----------
+export async function addRule(uid: string, input: NewRule): Promise<string> {
+  const id = await store.add(RULES_COLLECTION, { ...validateRule(input), userId: uid });
+  cache.delete(uid);
+  return id;
+}
+
+export async function updateRule(uid: string, id: string, input: NewRule): Promise<void> {
+  await store.update(RULES_COLLECTION, id, { ...validateRule(input) });
+  cache.delete(uid);
+}
+
+export async function deleteRule(uid: string, id: string): Promise<void> {
+  await store.remove(RULES_COLLECTION, id);
+  cache.delete(uid);
+}
+
+/**
+ * Points rules that assign `from` at `to` instead, after a category (or income
+ * source) is renamed or merged away. Rules for the other direction keep their
+ * category, and so do "any"-direction rules when a category of the other kind
+ * is also named `from` (`sharedName`), since they may mean that one.
+ * Resolves with the number of rules changed.
+ */
+export async function renameRuleCategory(
+  uid: string,
+  kind: TransactionKind,
+  from: string,
+  to: string,
+  sharedName = false
+): Promise<number> {
+  const direction = kind === "income" ? "credit" : "debit";
+  const rules = await fetchRules(uid);
+  const writes: BatchWrite[] = rules
+    .filter((rule) => rule.category && sameCategoryName(rule.category, from))
+    .filter((rule) => rule.direction === direction || (rule.direction === "any" && !sharedName))
+    .map((rule) => ({ op: "update", collection: RULES_COLLECTION, id: rule.id, patch: { category: to } }));
+
+  try {
+    for (let i = 0; i < writes.length; i += MAX_BATCH_WRITES) {
+      await store.batch(writes.slice(i, i + MAX_BATCH_WRITES));
+    }
+  } finally {
+    if (writes.length > 0) cache.delete(uid);
+  }
+  return writes.length;
+}
+
+/** Persists a new priority order, e.g. after moving a rule up or down. */
+export async function reorderRules(uid: string, orderedIds: string[]): Promise<void> {
+  for (const [i, id] of orderedIds.entries()) {
+    await store.update(RULES_COLLECTION, id, { priority: (i + 1) * 10 });
+  }
+  cache.delete(uid);
+}
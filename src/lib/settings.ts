@@ -0,0 +1,35 @@
+import { store } from "@/lib/storage";
+
+// ---------- Types ----------
+// One document per user for preferences and one-time setup flags
+export interface UserSettings {
+  rulesSeeded?: boolean; // Default categorization rules were created once
+  datesMigrated?: boolean; // Every transaction date is a Timestamp; set by a migration that found none unreadable
+  passwordHints?: Record<string, string>; // Bank name → reminder of how its PDF password is formed
+}
+
+export const SETTINGS_COLLECTION = "userSettings";
+
+// ---------- Queries ----------
+async function findSettingsDoc(uid: string) {
+  const [doc] = await store.list(SETTINGS_COLLECTION, [{ field: "userId", op: "==", value: uid }]);
+  return doc ?? null;
+}
+
+export async function fetchUserSettings(uid: string): Promise<UserSettings> {
+  const doc = await findSettingsDoc(uid);
+  return (doc?.data as UserSettings | undefined) ?? {};
+}
+
+// ---------- Writes ----------
+export async function updateUserSettings(uid: string, patch: Partial<UserSettings>): Promise<void> {
+  const doc = await findSettingsDoc(uid);
+  if (doc) await store.update(SETTINGS_COLLECTION, doc.id, patch);
+  else await store.add(SETTINGS_COLLECTION, { ...patch, userId: uid });
+}
+
+/** Remembers how a bank's statement password is formed. Only the hint is stored, never a password. */
+export async function savePasswordHint(uid: string, bankName: string, hint: string): Promise<void> {
+  const { passwordHints = {} } = await fetchUserSettings(uid);
+  await updateUserSettings(uid, { passwordHints: { ...passwordHints, [bankName.trim()]: hint.trim() } });
+}
@@ -0,0 +1,55 @@
+import { createLineParser } from "./line-parser";
+
+// ---------- Bank Layouts ----------
+// Column headers as they appear in each bank's downloadable PDF statement.
+
+// Date | Narration | Chq./Ref.No. | Value Dt | Withdrawal Amt. | Deposit Amt. | Closing Balance
+export const hdfcParser = createLineParser({
+  id: "hdfc",
+  name: "HDFC Bank",
+  identifiers: [/HDFC\s*BANK/i, /HDFC0\d{6}/],
+  header: /Narration[\s\S]{0,200}Closing\s*Balance/i,
+  datePattern: /\d{2}\/\d{2}\/\d{2}(?!\d)/,
+  dateFormat: "DD/MM/YYYY",
+});
+
+// Txn Date | Value Date | Description | Ref No./Cheque No. | Debit | Credit | Balance
+export const sbiParser = createLineParser({
+  id: "sbi",
+  name: "State Bank of India",
+  identifiers: [/State\s*Bank\s*of\s*India/i, /SBIN0\d{6}/],
+  header: /Txn\s*Date[\s\S]{0,200}Balance/i,
+  datePattern: /\d{1,2}\s+[A-Za-z]{3}\s+\d{4}/,
+  dateFormat: "DD-MMM-YYYY",
+});
+
+// S No. | Value Date | Transaction Date | Cheque Number | Transaction Remarks | Withdrawal | Deposit | Balance
+export const iciciParser = createLineParser({
+  id: "icici",
+  name: "ICICI Bank",
+  identifiers: [/ICICI\s*Bank/i, /ICIC0\d{6}/],
+  header: /Transaction\s*Remarks/i,
+  datePattern: /\d{2}\/\d{2}\/\d{4}/,
+  dateFormat: "DD/MM/YYYY",
+  serialNumber: true,
+});
+
+// Tran Date | Chq No | Particulars | Debit | Credit | Balance | Init. Br
+export const axisParser = createLineParser({
+  id: "axis",
+  name: "Axis Bank",
+  identifiers: [/Axis\s*Bank/i, /UTIB0\d{6}/],
+  header: /Tran\s*Date[\s\S]{0,200}Particulars/i,
+  datePattern: /\d{2}-\d{2}-\d{4}/,
+  dateFormat: "DD/MM/YYYY",
+});
+
+// Date | Narration | Chq/Ref No | Withdrawal (Dr) | Deposit (Cr) | Balance
+export const kotakParser = createLineParser({
+  id: "kotak",
+  name: "Kotak Mahindra Bank",
+  identifiers: [/Kotak\s*Mahindra\s*Bank/i, /KKBK0\d{6}/],
+  header: /Narration[\s\S]{0,200}Balance/i,
+  datePattern: /\d{2}-\d{2}-\d{4}/,
+  dateFormat: "DD/MM/YYYY",
+});
@@ -0,0 +1,102 @@
+import type { StatementBalances, StatementParser, StatementRow } from "./types";
+
+// ---------- ISO 20022 camt.053 ----------
+// XML bank-to-customer statement: one <Ntry> per booked line, opening and closing
+// balances as <Bal> blocks typed OPBD/PRCD and CLBD. Tags may carry a namespace prefix.
+
+const ENTITIES: Record<string, string> = { amp: "&", lt: "<", gt: ">", quot: '"', apos: "'" };
+
+const blocks = (xml: string, tag: string): string[] =>
+  [...xml.matchAll(new RegExp(`<(?:\\w+:)?${tag}(?:\\s[^>]*)?>([\\s\\S]*?)</(?:\\w+:)?${tag}>`, "g"))].map(
+    (match) => match[1]
+  );
+
+// Text of the first element at the end of this tag path, e.g. ["BookgDt", "Dt"]
+function field(xml: string, ...path: string[]): string {
+  let scope = xml;
+  for (const tag of path.slice(0, -1)) {
+    scope = blocks(scope, tag)[0];
+    if (scope === undefined) return "";
+  }
+  const value = blocks(scope, path[path.length - 1])[0] ?? "";
+  return value
+    .replace(/&#(\d+);/g, (_, code) => String.fromCharCode(Number(code)))
+    .replace(/&(\w+);/g, (entity, name) => ENTITIES[name] ?? entity)
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+// CRDT/DBIT applied to an unsigned <Amt>
+function signedAmount(xml: string): number | null {
+  const value = field(xml, "Amt");
+  const amount = Number(value);
+  if (!value || !isFinite(amount)) return null;
+  return field(xml, "CdtDbtInd") === "DBIT" ? -amount : amount;
+}
+
+function bookingDate(entry: string): string | null {
+  const value = field(entry, "BookgDt", "Dt") || field(entry, "BookgDt", "DtTm") || field(entry, "ValDt", "Dt");
+  const match = /^(\d{4})-(\d{2})-(\d{2})/.exec(value);
+  return match ? `${match[1]}-${match[2]}-${match[3]}` : null;
+}
+
+// Counterparty first (the creditor on a debit, the debtor on a credit), then the remittance text
+function describe(entry: string, credit: boolean): string {
+  const details = blocks(entry, "TxDtls")[0] ?? "";
+  const party = credit ? field(details, "RltdPties", "Dbtr", "Nm") : field(details, "RltdPties", "Cdtr", "Nm");
+  const remittance = blocks(details, "Ustrd").map((line) => line.replace(/\s+/g, " ").trim());
+  const parts = [party, ...remittance];
+  if (!parts.some(Boolean)) parts.push(field(entry, "AddtlNtryInf"));
+  return parts.filter(Boolean).join(" ");
+}
+
+function parse(text: string): StatementRow[] {
+  const rows: StatementRow[] = [];
+
+  for (const entry of blocks(text, "Ntry")) {
+    // Pending and information-only entries are not on the booked statement
+    const status = field(entry, "Sts", "Cd") || field(entry, "Sts");
+    if (status && status !== "BOOK") continue;
+
+    const amount = signedAmount(entry);
+    const date = bookingDate(entry);
+    if (!date || !amount) continue;
+
+    rows.push({
+      date,
+      description: describe(entry, amount > 0) || field(entry, "BkTxCd", "Prtry", "Cd") || "camt.053 entry",
+      amount: Math.abs(amount),
+      type: amount > 0 ? "Credit" : "Debit",
+      balance: null,
+      externalId: field(entry, "AcctSvcrRef") || field(entry, "NtryRef") || undefined,
+    });
+  }
+
+  return rows;
+}
+
+// Opening from the first statement in the file, closing from the last
+function readBalances(text: string): StatementBalances | null {
+  const statements = blocks(text, "Stmt");
+  if (statements.length === 0) return null;
+
+  const balance = (statement: string, codes: string[]): number | null => {
+    const match = blocks(statement, "Bal").find((bal) => codes.includes(field(bal, "Tp", "CdOrPrtry", "Cd")));
+    return match ? signedAmount(match) : null;
+  };
+  const currency = /<(?:\w+:)?Amt\s+Ccy="([A-Z]{3})"/.exec(text)?.[1];
+
+  return {
+    opening: balance(statements[0], ["OPBD", "PRCD"]),
+    closing: balance(statements[statements.length - 1], ["CLBD"]),
+    currency,
+  };
+}
+
+export const camt053Parser: StatementParser = {
+  id: "camt053",
+  name: "camt.053",
+  detect: (text) => /camt\.053|<(?:\w+:)?BkToCstmrStmt>/.test(text),
+  parse,
+  readBalances,
+};
@@ -0,0 +1,92 @@
+// ---------- Chunked Extraction ----------
+// Long statements are sent to the LLM in pieces small enough to answer in full.
+
+// Characters of statement text per request
+export const CHUNK_CHARS = 12000;
+
+// Requests in flight at once
+export const CHUNK_CONCURRENCY = 3;
+
+export interface ChunkError {
+  chunk: number; // 1-based, in statement order
+  message: string;
+}
+
+// Pages (form feeds or blank-line gaps from pdf-parse) and sheets ("# Sheet: ..." sections)
+const SECTION_BREAK = /\f|\n\s*\n|(?=^# Sheet: )/m;
+
+// A line that opens a transaction, so a chunk never ends in the middle of a wrapped one
+const ROW_START = /^\s*(\d{1,5}\s+)?\d{1,2}[/\-. ](\d{1,2}|[a-z]{3})[/\-. ]\d{2,4}/i;
+
+// A column header worth repeating at the top of every chunk cut from its section
+const HEADER = /date/i;
+
+/**
+ * Splits statement text on page and sheet boundaries, then packs lines into
+ * chunks of at most `maxChars`, cutting only before a line that starts a new
+ * transaction. Chunks cut from one section repeat that section's header line.
+ */
+export function chunkStatementText(text: string, maxChars = CHUNK_CHARS): string[] {
+  const chunks: string[] = [];
+  let current: string[] = [];
+  let size = 0;
+
+  const flush = () => {
+    if (current.some((line) => line.trim())) chunks.push(current.join("\n"));
+    current = [];
+    size = 0;
+  };
+
+  for (const section of text.split(SECTION_BREAK)) {
+    const lines = section.split("\n");
+    const header = lines.slice(0, 10).find((line) => HEADER.test(line) && !ROW_START.test(line));
+    if (current.length > 0) current.push("");
+
+    for (const line of lines) {
+      if (size + line.length + 1 > maxChars && current.length > 0) {
+        // Carry a wrapped transaction's first lines over with the rest of it
+        const cut = current.findLastIndex((l, i) => i > 0 && ROW_START.test(l));
+        const carried = cut > 0 && !ROW_START.test(line) ? current.slice(cut) : [];
+        current = current.slice(0, current.length - carried.length);
+        flush();
+        const repeatHeader = header && header !== line && header !== carried[0];
+        current = repeatHeader ? [header, ...carried] : carried;
+        size = current.reduce((sum, l) => sum + l.length + 1, 0);
+      }
+      current.push(line);
+      size += line.length + 1;
+    }
+  }
+  flush();
+
+  return chunks;
+}
+
+/**
+ * Runs `task` over every chunk with at most `concurrency` in flight. A failed
+ * chunk is reported in `errors` instead of failing the rest.
+ */
+export async function mapChunks<T>(
+  chunks: string[],
+  task: (chunk: string) => Promise<T[]>,
+  concurrency = CHUNK_CONCURRENCY
+): Promise<{ results: T[][]; errors: ChunkError[] }> {
+  const results: T[][] = chunks.map(() => []);
+  const errors: ChunkError[] = [];
+  let next = 0;
+
+  const worker = async () => {
+    while (next < chunks.length) {
+      const index = next++;
+      try {
+        results[index] = await task(chunks[index]);
+      } catch (err) {
+        errors.push({ chunk: index + 1, message: err instanceof Error ? err.message : "Unknown error" });
+      }
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(concurrency, chunks.length) }, worker));
+  errors.sort((a, b) => a.chunk - b.chunk);
+  return { results, errors };
+}
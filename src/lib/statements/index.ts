@@ -0,0 +1,42 @@
+import { axisParser, hdfcParser, iciciParser, kotakParser, sbiParser } from "./banks";
+import { camt053Parser } from "./camt";
+import { mt940Parser } from "./mt940";
+import { ofxParser } from "./ofx";
+import { qifParser } from "./qif";
+import type { StatementParser } from "./types";
+
+export { reconcileStatement, withRunningBalances } from "./reconcile";
+export type { Reconciliation } from "./reconcile";
+export type {
+  DateOrder,
+  DateOrderGuess,
+  StatementBalances,
+  StatementParseOptions,
+  StatementParser,
+  StatementRow,
+} from "./types";
+
+// Tried in order; the first whose layout matches reads the statement
+export const STATEMENT_PARSERS: StatementParser[] = [
+  hdfcParser,
+  sbiParser,
+  iciciParser,
+  axisParser,
+  kotakParser,
+];
+
+// Statement export formats, by file extension; they never need the LLM
+export const FILE_FORMAT_PARSERS: Record<string, StatementParser> = {
+  ".ofx": ofxParser,
+  ".qfx": ofxParser,
+  ".qif": qifParser,
+  ".xml": camt053Parser,
+  ".sta": mt940Parser,
+  ".mt940": mt940Parser,
+  ".940": mt940Parser,
+};
+
+/** The parser for this statement's bank, or null for formats left to the LLM. */
+export function detectStatementParser(text: string): StatementParser | null {
+  return STATEMENT_PARSERS.find((parser) => parser.detect(text)) ?? null;
+}
@@ -0,0 +1,142 @@
+import { DateFormat, parseStatementDate } from "@/lib/mappings";
+import type { StatementParser, StatementRow } from "./types";
+
+// How one bank lays out its statement text
+export interface LineLayout {
+  id: string;
+  name: string;
+  identifiers: RegExp[]; // Any of them in the letterhead (bank name, IFSC prefix)
+  header: RegExp; // The transaction table's column header
+  datePattern: RegExp; // A transaction date as printed, without anchors or flags
+  dateFormat: DateFormat;
+  serialNumber?: boolean; // Lines start with a running "S No." before the date
+}
+
+// Banks print their name and IFSC at the top; later mentions are usually narrations
+const LETTERHEAD_CHARS = 2000;
+
+// "1,23,456.78", "250.00", optionally followed by a Cr/Dr marker
+const MONEY = /(?:\d{1,3}(?:,\d{2,3})+|\d+)\.\d{2}(?:\s*(?:\((?:cr|dr)\)|(?:cr|dr)\b\.?))?/gi;
+
+const OPENING_BALANCE = /opening\s*balance[^\d]{0,40}((?:\d{1,3}(?:,\d{2,3})+|\d+)\.\d{2})/i;
+
+// Lines that end a transaction's description block
+const FOOTER =
+  /^(page\s*\d|opening\s*balance|closing\s*balance|statement\s*summary|total|generated\s*on|this\s*is\s*a\s*computer|\*)/i;
+
+// Reference and cheque numbers printed in their own column, and "-" for an empty one
+const REFERENCE = /(?<=^|\s)(\d{6,}|-)(?=\s|$)/g;
+
+const toCents = (value: number) => Math.round(value * 100);
+
+function parseMoney(token: string): { value: number; marker: "Credit" | "Debit" | null } {
+  const value = Number(token.replace(/[^0-9.]/g, ""));
+  const marker = /dr/i.test(token) ? "Debit" : /cr/i.test(token) ? "Credit" : null;
+  return { value, marker };
+}
+
+/** Credit or debit, from a printed marker or column, else from how the running balance moved. */
+function direction(
+  amount: number,
+  balance: number,
+  previous: number | null,
+  marker: "Credit" | "Debit" | null,
+  description: string
+): "Credit" | "Debit" {
+  if (marker) return marker;
+  if (previous !== null) {
+    const delta = toCents(balance) - toCents(previous);
+    if (delta === toCents(amount)) return "Credit";
+    if (delta === -toCents(amount)) return "Debit";
+    return delta > 0 ? "Credit" : "Debit";
+  }
+  // First line with no opening balance printed
+  return /\b(cr|credit|deposit|salary|refund|interest|reversal)\b/i.test(description) ? "Credit" : "Debit";
+}
+
+const toIsoDate = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, "0")}-${String(date.getDate()).padStart(2, "0")}`;
+
+/**
+ * A parser for statements printed one transaction per block: a line starting
+ * with the date, narration that may wrap onto the next lines, and the amount
+ * followed by the running balance as the last two figures of the block.
+ */
+export function createLineParser(layout: LineLayout): StatementParser {
+  const serial = layout.serialNumber ? "\\d{1,5}\\s+" : "";
+  const lineStart = new RegExp(`^${serial}(${layout.datePattern.source})`, "i");
+  const anyDate = new RegExp(layout.datePattern.source, "gi");
+
+  const parse = (text: string): StatementRow[] => {
+    const blocks: string[][] = [];
+    let current: string[] | null = null;
+
+    for (const line of text.split(/\r?\n/).map((l) => l.trim())) {
+      if (!line) continue;
+      if (lineStart.test(line)) {
+        current = [line];
+        blocks.push(current);
+      } else if (FOOTER.test(line)) {
+        current = null;
+      } else {
+        current?.push(line);
+      }
+    }
+
+    const opening = OPENING_BALANCE.exec(text);
+    let previous = opening ? parseMoney(opening[1]).value : null;
+    const rows: StatementRow[] = [];
+
+    for (const block of blocks) {
+      const first = lineStart.exec(block[0])!;
+      const date = parseStatementDate(first[1], layout.dateFormat);
+      const rest = block.join(" ").slice(first[0].length);
+      const figures = rest.match(MONEY) ?? [];
+      // Without an amount and a balance this is a wrapped header or a note, not a transaction
+      if (!date || figures.length < 2) continue;
+
+      // Some banks print 0.00 in the empty withdrawal/deposit column, so take the last non-zero figure
+      const columns = figures.slice(0, -1).map(parseMoney);
+      const amount = columns.filter((m) => m.value > 0).pop();
+      const balance = parseMoney(figures[figures.length - 1]);
+      if (!amount) continue;
+
+      // With both columns printed, the filled one tells the direction (withdrawal comes first)
+      const [withdrawal, deposit] = columns.slice(-2);
+      let column: "Credit" | "Debit" | null = null;
+      if (columns.length >= 2 && (withdrawal.value > 0) !== (deposit.value > 0)) {
+        column = deposit.value > 0 ? "Credit" : "Debit";
+      }
+      // An overdrawn balance is printed with Dr
+      const balanceValue = balance.marker === "Debit" ? -balance.value : balance.value;
+
+      const description = rest
+        .replace(MONEY, " ")
+        .replace(anyDate, " ")
+        .replace(REFERENCE, " ")
+        .replace(/\s+/g, " ")
+        .trim();
+
+      rows.push({
+        date: toIsoDate(date),
+        description,
+        amount: amount.value,
+        type: direction(amount.value, balanceValue, previous, amount.marker ?? column, description),
+        balance: balanceValue,
+      });
+      previous = balanceValue;
+    }
+
+    return rows;
+  };
+
+  return {
+    id: layout.id,
+    name: layout.name,
+    detect: (text) => {
+      const letterhead = text.slice(0, LETTERHEAD_CHARS);
+      return layout.identifiers.some((r) => r.test(letterhead)) && layout.header.test(text);
+    },
+    parse,
+  };
+}
@@ -0,0 +1,110 @@
+import type { StatementBalances, StatementParser, StatementRow } from "./types";
+
+// ---------- SWIFT MT940 ----------
+// Tagged fields like ":61:" each start a line and may continue onto the next ones.
+// :60F:/:60M: is the opening balance, :61: a statement line, :86: its narrative,
+// :62F:/:62M: the closing balance; a file may hold several statements back to back.
+
+interface Mt940Field {
+  tag: string;
+  value: string;
+}
+
+// "C250401EUR1234,56": credit/debit mark, YYMMDD, currency, comma-decimal amount
+const BALANCE = /^([CD])(\d{6})([A-Z]{3})(\d+,\d*)/;
+
+// Value date YYMMDD, optional booking date MMDD, mark (RC/RD are reversals),
+// optional funds code, amount, transaction type, owner's reference, "//" bank reference
+const LINE = /^(\d{2})(\d{2})(\d{2})(\d{4})?(R?[CD])([A-Z])?(\d+,\d*)([NSF][A-Z0-9]{3})([^/\n]*)(?:\/\/([^\n]*))?/;
+
+function splitFields(text: string): Mt940Field[] {
+  const fields: Mt940Field[] = [];
+  for (const line of text.split(/\r?\n/)) {
+    const tagged = /^:(\d{2}[A-Z]?):(.*)$/.exec(line);
+    if (tagged) fields.push({ tag: tagged[1], value: tagged[2] });
+    // Block trailers ("-", "-}") end the field; anything else continues it
+    else if (fields.length > 0 && !/^-}?$/.test(line.trim())) fields[fields.length - 1].value += `\n${line}`;
+  }
+  return fields;
+}
+
+const amountOf = (value: string) => Number(value.replace(",", "."));
+
+// Structured narratives open with a transaction code and split into "?20".."?33"
+// subfields; only their text matters here
+const narrative = (value: string) =>
+  value
+    .replace(/^\d{3}(?=\?)/, "")
+    .replace(/\?\d{2}/g, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+
+function bookingDate(match: RegExpExecArray): string {
+  const [, yy, valueMonth, valueDay, booking] = match;
+  let year = 2000 + Number(yy);
+  if (!booking) return `${year}-${valueMonth}-${valueDay}`;
+
+  // The booking date has no year; it can fall across New Year from the value date
+  const month = booking.slice(0, 2);
+  if (month === "12" && valueMonth === "01") year -= 1;
+  if (month === "01" && valueMonth === "12") year += 1;
+  return `${year}-${month}-${booking.slice(2)}`;
+}
+
+function parse(text: string): StatementRow[] {
+  const rows: StatementRow[] = [];
+  const fields = splitFields(text);
+
+  fields.forEach((field, i) => {
+    if (field.tag !== "61") return;
+    const match = LINE.exec(field.value);
+    const amount = match ? amountOf(match[7]) : 0;
+    if (!match || !amount) return;
+
+    // A reversal of a credit takes money out, and the other way round
+    const credit = match[5] === "C" || match[5] === "RD";
+    const next = fields[i + 1];
+    const ownerReference = match[9].trim() === "NONREF" ? "" : match[9].trim();
+    const bankReference = match[10]?.trim();
+    // Supplementary details sit on the :61: line's continuation
+    const supplementary = field.value.split("\n").slice(1).join(" ");
+
+    rows.push({
+      date: bookingDate(match),
+      description:
+        (next?.tag === "86" ? narrative(next.value) : "") ||
+        narrative(supplementary) ||
+        ownerReference ||
+        "MT940 line",
+      amount,
+      type: credit ? "Credit" : "Debit",
+      balance: null,
+      externalId: bankReference || ownerReference || undefined,
+    });
+  });
+
+  return rows;
+}
+
+// Opening from the first statement in the file, closing from the last
+function readBalances(text: string): StatementBalances | null {
+  const balances = splitFields(text)
+    .filter((field) => /^6[02][FM]$/.test(field.tag))
+    .map((field) => ({ tag: field.tag, match: BALANCE.exec(field.value.trim()) }));
+
+  const signed = (match: RegExpExecArray | null | undefined) =>
+    match ? (match[1] === "D" ? -amountOf(match[4]) : amountOf(match[4])) : null;
+  const opening = balances.find((b) => b.tag.startsWith("60"))?.match;
+  const closing = balances.filter((b) => b.tag.startsWith("62")).pop()?.match;
+  if (!opening && !closing) return null;
+
+  return { opening: signed(opening), closing: signed(closing), currency: (opening ?? closing)?.[3] };
+}
+
+export const mt940Parser: StatementParser = {
+  id: "mt940",
+  name: "MT940",
+  detect: (text) => /^:20:/m.test(text) && /^:61:/m.test(text),
+  parse,
+  readBalances,
+};
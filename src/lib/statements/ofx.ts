@@ -0,0 +1,52 @@
+import type { StatementParser, StatementRow } from "./types";
+
+// ---------- OFX / QFX ----------
+// OFX 1.x is SGML with unclosed leaf tags, 2.x is XML; both carry one <STMTTRN> per line.
+
+const TRANSACTION = /<STMTTRN>([\s\S]*?)(?=<\/STMTTRN>|<STMTTRN>|<\/BANKTRANLIST>|$)/gi;
+
+const ENTITIES: Record<string, string> = { amp: "&", lt: "<", gt: ">", quot: '"', apos: "'", nbsp: " " };
+
+// Leaf value up to the next tag or line end, which covers both SGML and XML forms
+function field(block: string, tag: string): string {
+  const match = new RegExp(`<${tag}>([^<\\r\\n]*)`, "i").exec(block);
+  return (match?.[1] ?? "").replace(/&(\w+);/g, (entity, name) => ENTITIES[name.toLowerCase()] ?? entity).trim();
+}
+
+// DTPOSTED is YYYYMMDD[HHMMSS[.XXX]][[gmt offset:tz]]; the posting day is all a transaction needs
+function postedDate(value: string): string | null {
+  const match = /^(\d{4})(\d{2})(\d{2})/.exec(value);
+  return match ? `${match[1]}-${match[2]}-${match[3]}` : null;
+}
+
+function parse(text: string): StatementRow[] {
+  const rows: StatementRow[] = [];
+
+  for (const [, block] of text.matchAll(TRANSACTION)) {
+    const date = postedDate(field(block, "DTPOSTED"));
+    const amount = Number(field(block, "TRNAMT").replace(/,/g, ""));
+    if (!date || !amount || !isFinite(amount)) continue;
+
+    const name = field(block, "NAME") || field(block, "PAYEE");
+    const memo = field(block, "MEMO");
+    const description = memo && !name.includes(memo) ? [name, memo].filter(Boolean).join(" ") : name;
+
+    rows.push({
+      date,
+      description: description || field(block, "TRNTYPE"),
+      amount: Math.abs(amount),
+      type: amount > 0 ? "Credit" : "Debit",
+      balance: null,
+      externalId: field(block, "FITID") || undefined,
+    });
+  }
+
+  return rows;
+}
+
+export const ofxParser: StatementParser = {
+  id: "ofx",
+  name: "OFX",
+  detect: (text) => /<OFX>/i.test(text),
+  parse,
+};
@@ -0,0 +1,91 @@
+import type { DateOrderGuess, StatementParseOptions, StatementParser, StatementRow } from "./types";
+
+// ---------- QIF ----------
+// One field per line, keyed by its first character; "^" ends a record.
+
+interface QifRecord {
+  date: string;
+  amount: string;
+  payee: string;
+  memo: string;
+}
+
+// "12/31/2024", "12/31'24", "31-12-24"; US apps write month first
+const DATE = /^(\d{1,2})[/\-.](\d{1,2})(?:[/\-.]|')\s*(\d{2,4})$/;
+
+function splitRecords(text: string): QifRecord[] {
+  const records: QifRecord[] = [];
+  let current: QifRecord = { date: "", amount: "", payee: "", memo: "" };
+
+  for (const raw of text.split(/\r?\n/)) {
+    const line = raw.trim();
+    if (!line || line.startsWith("!")) continue;
+
+    const value = line.slice(1).trim();
+    switch (line[0]) {
+      case "D":
+        current.date = value;
+        break;
+      case "T":
+      case "U":
+        current.amount = value;
+        break;
+      case "P":
+        current.payee = value;
+        break;
+      case "M":
+        current.memo = value;
+        break;
+      case "^":
+        records.push(current);
+        current = { date: "", amount: "", payee: "", memo: "" };
+        break;
+    }
+  }
+  return records;
+}
+
+const matchDate = (record: QifRecord) => DATE.exec(record.date.replace(/\s+/g, ""));
+
+// A part above 12 anywhere can only be a day, which settles the whole file
+function orderOf(dates: (RegExpExecArray | null)[]): DateOrderGuess {
+  if (dates.some((d) => d && Number(d[1]) > 12)) return { order: "day-first", certain: true };
+  if (dates.some((d) => d && Number(d[2]) > 12)) return { order: "month-first", certain: true };
+  return { order: "month-first", certain: false };
+}
+
+function parse(text: string, options: StatementParseOptions = {}): StatementRow[] {
+  const records = splitRecords(text);
+  const dates = records.map(matchDate);
+  const dayFirst = (options.dateOrder ?? orderOf(dates).order) === "day-first";
+
+  const rows: StatementRow[] = [];
+  records.forEach((record, i) => {
+    const parts = dates[i];
+    const amount = Number(record.amount.replace(/,/g, ""));
+    if (!parts || !amount || !isFinite(amount)) return;
+
+    const [day, month] = dayFirst ? [parts[1], parts[2]] : [parts[2], parts[1]];
+    const year = parts[3].length === 2 ? `20${parts[3]}` : parts[3];
+    const date = new Date(Number(year), Number(month) - 1, Number(day));
+    if (date.getMonth() !== Number(month) - 1 || date.getDate() !== Number(day)) return;
+
+    rows.push({
+      date: `${year}-${month.padStart(2, "0")}-${day.padStart(2, "0")}`,
+      description: [record.payee, record.memo].filter(Boolean).join(" ") || "QIF transaction",
+      amount: Math.abs(amount),
+      type: amount > 0 ? "Credit" : "Debit",
+      balance: null,
+    });
+  });
+
+  return rows;
+}
+
+export const qifParser: StatementParser = {
+  id: "qif",
+  name: "QIF",
+  detect: (text) => /^!Type:/im.test(text),
+  parse,
+  guessDateOrder: (text) => orderOf(splitRecords(text).map(matchDate)),
+};
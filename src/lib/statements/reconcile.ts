@@ -0,0 +1,41 @@
+import type { StatementBalances, StatementRow } from "./types";
+
+// ---------- Reconciliation ----------
+
+export interface Reconciliation {
+  opening: number;
+  closing: number; // As stated in the file
+  computed: number; // Opening plus every parsed line
+  currency?: string;
+  balanced: boolean;
+}
+
+// Money summed in paise/cents so float drift cannot fail a match
+const cents = (value: number) => Math.round(value * 100);
+
+/** Checks the parsed lines against the file's own balances; null when it states neither end. */
+export function reconcileStatement(rows: StatementRow[], balances: StatementBalances | null): Reconciliation | null {
+  if (!balances || balances.opening === null || balances.closing === null) return null;
+
+  const total = rows.reduce(
+    (sum, row) => sum + (row.type === "Credit" ? cents(row.amount) : -cents(row.amount)),
+    cents(balances.opening)
+  );
+
+  return {
+    opening: balances.opening,
+    closing: balances.closing,
+    computed: total / 100,
+    currency: balances.currency,
+    balanced: total === cents(balances.closing),
+  };
+}
+
+/** Fills each line's running balance, counted on from the opening balance. */
+export function withRunningBalances(rows: StatementRow[], opening: number): StatementRow[] {
+  let balance = cents(opening);
+  return rows.map((row) => {
+    balance += row.type === "Credit" ? cents(row.amount) : -cents(row.amount);
+    return { ...row, balance: balance / 100 };
+  });
+}
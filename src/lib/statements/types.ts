@@ -0,0 +1,44 @@
+// ---------- Statement Parser Types ----------
+// Deterministic readers for bank statement PDFs (from the text pdf-parse extracts)
+// and for statement export formats like OFX and QIF.
+
+// One statement line, amounts exactly as printed
+export interface StatementRow {
+  date: string; // yyyy-mm-dd
+  description: string;
+  amount: number;
+  type: "Credit" | "Debit";
+  balance: number | null; // Running balance after this line
+  externalId?: string; // The bank's own transaction ID (OFX FITID), stable across exports
+}
+
+// Day/month order of dates like "03/04/25", for formats that leave it to the exporting app
+export type DateOrder = "day-first" | "month-first";
+
+export interface DateOrderGuess {
+  order: DateOrder;
+  certain: boolean; // Some date only reads one way, e.g. "31/12/24"
+}
+
+export interface StatementParseOptions {
+  dateOrder?: DateOrder; // Overrides the parser's own guess
+}
+
+// Balances a statement file states for itself
+export interface StatementBalances {
+  opening: number | null;
+  closing: number | null;
+  currency?: string;
+}
+
+export interface StatementParser {
+  id: string;
+  name: string; // Shown on the upload page, e.g. "HDFC Bank"
+  /** Whether the text comes from this bank's statement layout. */
+  detect(text: string): boolean;
+  parse(text: string, options?: StatementParseOptions): StatementRow[];
+  /** Opening and closing balances printed in the file, for formats that carry them. */
+  readBalances?(text: string): StatementBalances | null;
+  /** The day/month order the file's dates are read in, for formats where it varies. */
+  guessDateOrder?(text: string): DateOrderGuess;
+}
@@ -0,0 +1,29 @@
+// JSON codec for stored documents: keeps `Date` values intact across the
+// local JSON file and the /api/local-store wire format.
+
+const DATE_KEY = "$date";
+
+export function encode(value: unknown): unknown {
+  if (value instanceof Date) return { [DATE_KEY]: value.toISOString() };
+  if (Array.isArray(value)) return value.map(encode);
+  if (value && typeof value === "object") {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, v]) => [key, encode(v)])
+    );
+  }
+  return value;
+}
+
+export function decode(value: unknown): unknown {
+  if (Array.isArray(value)) return value.map(decode);
+  if (value && typeof value === "object") {
+    const record = value as Record<string, unknown>;
+    if (typeof record[DATE_KEY] === "string" && Object.keys(record).length === 1) {
+      return new Date(record[DATE_KEY] as string);
+    }
+    return Object.fromEntries(
+      Object.entries(record).map(([key, v]) => [key, decode(v)])
+    );
+  }
+  return value;
+}
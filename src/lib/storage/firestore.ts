@@ -0,0 +1,93 @@
+import {
+  addDoc,
+  collection,
+  deleteDoc,
+  DocumentData,
+  doc,
+  getDoc,
+  getDocs,
+  query,
+  serverTimestamp,
+  Timestamp,
+  updateDoc,
+  where,
+  writeBatch,
+} from "firebase/firestore";
+import { db } from "@/lib/firebase";
+import { DocumentStore, MAX_BATCH_WRITES, StoredData } from "./types";
+
+// ---------- Value Conversion ----------
+function toFirestore(value: unknown): unknown {
+  if (value instanceof Date) return Timestamp.fromDate(value);
+  if (Array.isArray(value)) return value.map(toFirestore);
+  if (value && typeof value === "object" && value.constructor === Object) {
+    // Firestore rejects `undefined` fields, so drop them
+    return Object.fromEntries(
+      Object.entries(value)
+        .filter(([, v]) => v !== undefined)
+        .map(([key, v]) => [key, toFirestore(v)])
+    );
+  }
+  return value;
+}
+
+function fromFirestore(value: unknown): unknown {
+  if (value instanceof Timestamp) return value.toDate();
+  if (Array.isArray(value)) return value.map(fromFirestore);
+  if (value && typeof value === "object" && value.constructor === Object) {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, v]) => [key, fromFirestore(v)])
+    );
+  }
+  return value;
+}
+
+// ---------- Adapter ----------
+export const firestoreStore: DocumentStore = {
+  async list(name, filters = []) {
+    const constraints = filters.map((f) => where(f.field, f.op, toFirestore(f.value)));
+    const snapshot = await getDocs(query(collection(db, name), ...constraints));
+    return snapshot.docs.map((d) => ({ id: d.id, data: fromFirestore(d.data()) as StoredData }));
+  },
+
+  async get(name, id) {
+    const snapshot = await getDoc(doc(db, name, id));
+    return snapshot.exists()
+      ? { id: snapshot.id, data: fromFirestore(snapshot.data()) as StoredData }
+      : null;
+  },
+
+  async add(name, data) {
+    const ref = await addDoc(collection(db, name), {
+      ...(toFirestore(data) as StoredData),
+      createdAt: serverTimestamp(),
+    });
+    return ref.id;
+  },
+
+  async update(name, id, patch) {
+    await updateDoc(doc(db, name, id), toFirestore(patch) as DocumentData);
+  },
+
+  async remove(name, id) {
+    await deleteDoc(doc(db, name, id));
+  },
+
+  async batch(writes) {
+    if (writes.length > MAX_BATCH_WRITES) {
+      throw new Error(`A batch holds at most ${MAX_BATCH_WRITES} writes, got ${writes.length}`);
+    }
+    const batch = writeBatch(db);
+    for (const w of writes) {
+      const ref = doc(db, w.collection, w.id);
+      if (w.op === "create") {
+        batch.set(ref, { ...(toFirestore(w.data) as StoredData), createdAt: serverTimestamp() });
+      } else if (w.op === "update") {
+        batch.update(ref, toFirestore(w.patch) as DocumentData);
+      } else {
+        batch.delete(ref);
+      }
+    }
+    await batch.commit();
+  },
+};
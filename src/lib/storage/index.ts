@@ -0,0 +1,51 @@
+import type { DocumentStore, StorageBackend } from "./types";
+
+export { MAX_BATCH_WRITES } from "./types";
+export type { BatchWrite, DocumentStore, Filter, FilterOp, StoredData, StoredDoc, StorageBackend } from "./types";
+
+/**
+ * Selected with NEXT_PUBLIC_STORAGE_BACKEND ("firestore" by default, or
+ * "local" for the offline JSON-file backend).
+ */
+export const STORAGE_BACKEND: StorageBackend =
+  process.env.NEXT_PUBLIC_STORAGE_BACKEND === "local" ? "local" : "firestore";
+
+export const isLocalBackend = STORAGE_BACKEND === "local";
+
+// Server code registers the JSON-file adapter by importing "@/lib/storage/server";
+// importing it from here would drag `fs` into the browser bundle.
+let localFileStore: (() => Promise<DocumentStore>) | null = null;
+
+export function registerLocalFileStore(factory: () => Promise<DocumentStore>) {
+  localFileStore = factory;
+}
+
+// Adapters are imported lazily so the Firebase SDK stays out of local mode
+async function resolveStore(): Promise<DocumentStore> {
+  if (!isLocalBackend) {
+    const { firestoreStore } = await import("./firestore");
+    return firestoreStore;
+  }
+
+  if (typeof window !== "undefined") {
+    const { localHttpStore } = await import("./local-http");
+    return localHttpStore;
+  }
+
+  if (!localFileStore) {
+    throw new Error('Local storage backend: import "@/lib/storage/server" in server code');
+  }
+  return localFileStore();
+}
+
+let resolved: Promise<DocumentStore> | null = null;
+const getStore = () => (resolved ??= resolveStore());
+
+export const store: DocumentStore = {
+  list: async (...args) => (await getStore()).list(...args),
+  get: async (...args) => (await getStore()).get(...args),
+  add: async (...args) => (await getStore()).add(...args),
+  update: async (...args) => (await getStore()).update(...args),
+  remove: async (...args) => (await getStore()).remove(...args),
+  batch: async (...args) => (await getStore()).batch(...args),
+};
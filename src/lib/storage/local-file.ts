@@ -0,0 +1,38 @@
+import { mkdir, readFile, writeFile } from "fs/promises";
+import path from "path";
+import { decode, encode } from "./codec";
+import { createMemoryStore, MemoryData } from "./memory";
+import type { DocumentStore } from "./types";
+
+// Server-only: the local backend's source of truth, a JSON file on disk.
+const DB_FILE = path.resolve(process.env.LOCAL_DB_FILE || ".local-db.json");
+
+async function load(): Promise<MemoryData> {
+  try {
+    return decode(JSON.parse(await readFile(DB_FILE, "utf8"))) as MemoryData;
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === "ENOENT") return {};
+    throw err;
+  }
+}
+
+// Serialize writes so concurrent requests never interleave on the file
+let pendingWrite: Promise<void> = Promise.resolve();
+
+function persist(data: MemoryData): Promise<void> {
+  const contents = JSON.stringify(encode(data), null, 2);
+  pendingWrite = pendingWrite
+    .catch(() => undefined)
+    .then(async () => {
+      await mkdir(path.dirname(DB_FILE), { recursive: true });
+      await writeFile(DB_FILE, contents, "utf8");
+    });
+  return pendingWrite;
+}
+
+let storePromise: Promise<DocumentStore> | null = null;
+
+export function getLocalFileStore(): Promise<DocumentStore> {
+  storePromise ??= load().then((data) => createMemoryStore(data, persist));
+  return storePromise;
+}
@@ -0,0 +1,27 @@
+import { decode, encode } from "./codec";
+import type { DocumentStore } from "./types";
+
+// Browser side of the local backend: forwards every call to /api/local-store,
+// which owns the JSON file.
+async function call<T>(op: keyof DocumentStore, args: unknown[]): Promise<T> {
+  const res = await fetch("/api/local-store", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ op, args: encode(args) }),
+  });
+
+  const json = await res.json();
+  if (!res.ok) {
+    throw new Error(json?.message || json?.error || "Local store request failed");
+  }
+  return decode(json.result) as T;
+}
+
+export const localHttpStore: DocumentStore = {
+  list: (collection, filters) => call("list", [collection, filters]),
+  get: (collection, id) => call("get", [collection, id]),
+  add: (collection, data) => call("add", [collection, data]),
+  update: (collection, id, patch) => call("update", [collection, id, patch]),
+  remove: (collection, id) => call("remove", [collection, id]),
+  batch: (writes) => call("batch", [writes]),
+};
@@ -0,0 +1,128 @@
+import { v4 as uuidv4 } from "uuid";
+import { DocumentStore, Filter, MAX_BATCH_WRITES, StoredData, StoredDoc } from "./types";
+
+export type MemoryData = Record<string, Record<string, StoredData>>;
+
+// ---------- Filter Evaluation ----------
+function comparable(value: unknown): unknown {
+  return value instanceof Date ? value.getTime() : value;
+}
+
+function matches(data: StoredData, { field, op, value }: Filter): boolean {
+  const actual = comparable(data[field]);
+  const expected = comparable(value);
+
+  switch (op) {
+    case "==":
+      return actual === expected || (actual == null && expected == null);
+    case "!=":
+      // Like Firestore, documents without the field never match
+      return actual !== undefined && actual !== expected;
+  }
+
+  if (actual == null || expected == null || typeof actual !== typeof expected) return false;
+  const a = actual as number | string;
+  const b = expected as number | string;
+
+  switch (op) {
+    case "<":
+      return a < b;
+    case "<=":
+      return a <= b;
+    case ">":
+      return a > b;
+    case ">=":
+      return a >= b;
+  }
+}
+
+const clone = <T>(value: T): T => structuredClone(value);
+
+/**
+ * In-memory document store. `onChange` fires after every mutation with the
+ * full data set, which lets callers persist it wherever they like; a change
+ * only takes effect once `onChange` resolves.
+ */
+export function createMemoryStore(
+  initial: MemoryData = {},
+  onChange?: (data: MemoryData) => void | Promise<void>
+): DocumentStore {
+  let data: MemoryData = clone(initial);
+  // Mutations run one at a time, each on the state the previous one left
+  let pending: Promise<unknown> = Promise.resolve();
+
+  const bucket = (source: MemoryData, collection: string) => (source[collection] ??= {});
+
+  // Applies `mutate` to a copy, which replaces the live data after it was persisted
+  const commit = (mutate: (next: MemoryData) => void): Promise<void> => {
+    const run = pending.then(async () => {
+      const next = onChange ? clone(data) : data;
+      mutate(next);
+      await onChange?.(next);
+      data = next;
+    });
+    pending = run.catch(() => undefined);
+    return run;
+  };
+
+  return {
+    async list(collection, filters = []) {
+      return Object.entries(bucket(data, collection))
+        .filter(([, doc]) => filters.every((f) => matches(doc, f)))
+        .map(([id, doc]): StoredDoc => ({ id, data: clone(doc) }));
+    },
+
+    async get(collection, id) {
+      const doc = bucket(data, collection)[id];
+      return doc ? { id, data: clone(doc) } : null;
+    },
+
+    async add(collection, doc) {
+      const id = uuidv4();
+      await commit((next) => {
+        bucket(next, collection)[id] = { ...clone(doc), createdAt: new Date() };
+      });
+      return id;
+    },
+
+    async update(collection, id, patch) {
+      await commit((next) => {
+        const existing = bucket(next, collection)[id];
+        if (!existing) throw new Error(`Document ${collection}/${id} not found`);
+        bucket(next, collection)[id] = { ...existing, ...clone(patch) };
+      });
+    },
+
+    async remove(collection, id) {
+      await commit((next) => {
+        delete bucket(next, collection)[id];
+      });
+    },
+
+    async batch(writes) {
+      if (writes.length > MAX_BATCH_WRITES) {
+        throw new Error(`A batch holds at most ${MAX_BATCH_WRITES} writes, got ${writes.length}`);
+      }
+      await commit((next) => {
+        // Validate up front so a missing document leaves nothing half-applied
+        for (const w of writes) {
+          if (w.op === "update" && !bucket(next, w.collection)[w.id]) {
+            throw new Error(`Document ${w.collection}/${w.id} not found`);
+          }
+          if (w.op === "create" && bucket(next, w.collection)[w.id]) {
+            throw new Error(`Document ${w.collection}/${w.id} already exists`);
+          }
+        }
+        for (const w of writes) {
+          if (w.op === "create") {
+            bucket(next, w.collection)[w.id] = { ...clone(w.data), createdAt: new Date() };
+          } else if (w.op === "update") {
+            bucket(next, w.collection)[w.id] = { ...bucket(next, w.collection)[w.id], ...clone(w.patch) };
+          } else {
+            delete bucket(next, w.collection)[w.id];
+          }
+        }
+      });
+    },
+  };
+}
@@ -0,0 +1,8 @@
+// Server-only entry point: makes the local JSON-file adapter available to
+// `store` when running with NEXT_PUBLIC_STORAGE_BACKEND=local.
+import { registerLocalFileStore } from "./index";
+import { getLocalFileStore } from "./local-file";
+
+registerLocalFileStore(getLocalFileStore);
+
+export { getLocalFileStore };
@@ -0,0 +1,40 @@
+// ---------- Storage Types ----------
+// Backend-agnostic document model. Date values are always plain JS `Date`s at
+// this boundary; adapters convert to and from their native representation.
+
+export type StoredData = Record<string, unknown>;
+
+export interface StoredDoc {
+  id: string;
+  data: StoredData;
+}
+
+export type FilterOp = "==" | "!=" | "<" | "<=" | ">" | ">=";
+
+export interface Filter {
+  field: string;
+  op: FilterOp;
+  value: unknown;
+}
+
+// Firestore's cap on writes per batch; every adapter enforces it so `batch` stays all-or-nothing
+export const MAX_BATCH_WRITES = 500;
+
+// One write inside an atomic `batch`
+export type BatchWrite =
+  | { op: "create"; collection: string; id: string; data: StoredData } // Stamps `createdAt` like `add`
+  | { op: "update"; collection: string; id: string; patch: StoredData }
+  | { op: "remove"; collection: string; id: string };
+
+export interface DocumentStore {
+  list(collection: string, filters?: Filter[]): Promise<StoredDoc[]>;
+  get(collection: string, id: string): Promise<StoredDoc | null>;
+  /** Creates a document and stamps `createdAt`. Resolves with the new id. */
+  add(collection: string, data: StoredData): Promise<string>;
+  update(collection: string, id: string, patch: StoredData): Promise<void>;
+  remove(collection: string, id: string): Promise<void>;
+  /** Applies every write or none of them. Rejects more than MAX_BATCH_WRITES writes. */
+  batch(writes: BatchWrite[]): Promise<void>;
+}
+
+export type StorageBackend = "firestore" | "local";
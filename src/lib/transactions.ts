@@ -0,0 +1,617 @@
+import { v4 as uuidv4 } from "uuid";
+import {
+  ChangeAction,
+  ChangeContext,
+  diffTransaction,
+  FieldChange,
+  recordTransactionChange,
+  transactionChangeWrite,
+} from "@/lib/history";
+import type { ReceiptLineItem } from "@/lib/receipts";
+import { BatchWrite, Filter, MAX_BATCH_WRITES, store, StoredDoc } from "@/lib/storage";
+
+// ---------- Types ----------
+export type TransactionKind = "income" | "expense";
+
+// One part of a split transaction
+export interface TransactionSplit {
+  category: string;
+  amount: number;
+}
+
+export interface Transaction {
+  id: string;
+  kind: TransactionKind;
+  userId: string;
+  amount: number;
+  category: string; // Expense category or income source
+  title?: string;
+  merchant?: string; // Canonical counterparty, e.g. "Zomato" from a raw UPI description
+  account?: string; // Bank account a statement import came from
+  fingerprint?: string; // Set by statement imports for duplicate detection
+  importBatchId?: string; // Statement upload that created it
+  tags?: string[];
+  lineItems?: ReceiptLineItem[]; // Items of the receipt an expense was added from
+  splits?: TransactionSplit[]; // Parts in different categories, adding up to `amount`
+  date: Date;
+  deletedAt?: Date; // Set while the transaction sits in the trash
+}
+
+export interface NewTransaction {
+  amount: number;
+  category: string;
+  title?: string;
+  merchant?: string;
+  account?: string;
+  fingerprint?: string;
+  importBatchId?: string;
+  tags?: string[];
+  lineItems?: ReceiptLineItem[];
+  splits?: TransactionSplit[];
+  date: Date;
+}
+
+// Half-open interval: from <= date < to
+export interface DateRange {
+  from: Date;
+  to: Date;
+}
+
+export const COLLECTIONS: Record<TransactionKind, string> = {
+  income: "incomes",
+  expense: "expenses",
+};
+
+// Deleted transactions stay recoverable from the trash for this long
+export const TRASH_RETENTION_DAYS = 30;
+
+// ---------- Date Helpers ----------
+
+/**
+ * Normalizes the different shapes a stored `date` can take
+ * (Firestore Timestamp, serialized `{ seconds }`, ISO string, Date) into a Date.
+ */
+export function toDate(raw: unknown): Date | null {
+  if (!raw) return null;
+
+  let date: Date | null = null;
+  if (raw instanceof Date) date = raw;
+  else if (typeof raw === "string" || typeof raw === "number") date = new Date(raw);
+  else if (typeof raw === "object") {
+    const r = raw as { toDate?: () => Date; seconds?: number };
+    if (typeof r.toDate === "function") date = r.toDate();
+    else if (typeof r.seconds === "number") date = new Date(r.seconds * 1000);
+  }
+
+  return date && !isNaN(date.getTime()) ? date : null;
+}
+
+/** Bucket key stored alongside `date`, e.g. "2025-07" (local calendar month). */
+export function toMonthKey(date: Date): string {
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, "0")}`;
+}
+
+/** Range covering `span` calendar months ending with (year, month). */
+export function monthRange(year: number, month: number, span = 1): DateRange {
+  return {
+    from: new Date(year, month - span + 1, 1),
+    to: new Date(year, month + 1, 1),
+  };
+}
+
+export function yearRange(year: number): DateRange {
+  return { from: new Date(year, 0, 1), to: new Date(year + 1, 0, 1) };
+}
+
+export function isWithinRange(date: Date, range: DateRange): boolean {
+  return date >= range.from && date < range.to;
+}
+
+export function filterByRange(transactions: Transaction[], range: DateRange): Transaction[] {
+  return transactions.filter((t) => isWithinRange(t.date, range));
+}
+
+export function sumAmounts(transactions: Pick<Transaction, "amount">[]): number {
+  return transactions.reduce((sum, t) => sum + t.amount, 0);
+}
+
+// ---------- Category Attribution ----------
+
+/** Whether two category (or income source) names are the same, ignoring case and outer spaces. */
+export const sameCategoryName = (a: string, b: string) => a.trim().toLowerCase() === b.trim().toLowerCase();
+
+export interface CategoryShare {
+  category: string;
+  amount: number;
+}
+
+/**
+ * How a transaction's amount divides between categories. A split decides it
+ * outright. Otherwise line items with a category of their own count towards
+ * it; whatever they leave (other items, tax, rounding) stays with the
+ * transaction's category. Items adding up to more than the amount (a discount
+ * on the total) are scaled down to fit.
+ */
+export function categoryShares(
+  t: Pick<Transaction, "amount" | "category" | "lineItems" | "splits">
+): CategoryShare[] {
+  if (t.splits?.length) return t.splits.map(({ category, amount }) => ({ category, amount }));
+
+  const items = t.lineItems ?? [];
+  const itemsTotal = items.reduce((sum, item) => sum + item.amount, 0);
+  const scale = itemsTotal > t.amount ? t.amount / itemsTotal : 1;
+
+  const shares = new Map<string, number>();
+  let rest = t.amount;
+  for (const item of items) {
+    if (!item.category || item.category === t.category) continue;
+    const amount = item.amount * scale;
+    shares.set(item.category, (shares.get(item.category) ?? 0) + amount);
+    rest -= amount;
+  }
+
+  return [[t.category, rest] as const, ...shares]
+    .filter(([, amount]) => amount > 0.005)
+    .map(([category, amount]) => ({ category, amount }));
+}
+
+/** Amount per category across these transactions, with splits and categorized line items counted separately. */
+export function categoryTotals(transactions: Transaction[]): Record<string, number> {
+  const totals: Record<string, number> = {};
+  for (const t of transactions) {
+    for (const { category, amount } of categoryShares(t)) {
+      totals[category] = (totals[category] || 0) + amount;
+    }
+  }
+  return totals;
+}
+
+// ---------- Mapping ----------
+
+// Fields as persisted; legacy documents may carry any subset of them
+interface TransactionRecord {
+  userId?: string;
+  amount?: unknown;
+  category?: string;
+  source?: string;
+  title?: string;
+  merchant?: string;
+  account?: string;
+  fingerprint?: string;
+  importBatchId?: string;
+  tags?: string[];
+  lineItems?: ReceiptLineItem[];
+  splits?: TransactionSplit[];
+  date?: unknown;
+  deletedAt?: unknown;
+}
+
+function fromDoc(kind: TransactionKind, doc: StoredDoc): Transaction | null {
+  const d = doc.data as TransactionRecord;
+  const date = toDate(d.date);
+  if (!date || typeof d.amount !== "number") return null;
+
+  return {
+    id: doc.id,
+    kind,
+    userId: d.userId ?? "",
+    amount: d.amount,
+    category:
+      (kind === "income" ? d.source || d.category : d.category) ||
+      (kind === "income" ? "Income" : "Uncategorized"),
+    title: d.title || undefined,
+    merchant: d.merchant || undefined,
+    account: d.account || undefined,
+    fingerprint: d.fingerprint || undefined,
+    importBatchId: d.importBatchId || undefined,
+    tags: d.tags?.length ? d.tags : undefined,
+    lineItems: d.lineItems?.length ? d.lineItems : undefined,
+    splits: d.splits?.length ? d.splits : undefined,
+    date,
+    deletedAt: toDate(d.deletedAt) ?? undefined,
+  };
+}
+
+// ---------- Queries ----------
+
+/**
+ * Fetches a user's live (not trashed) transactions, optionally
+ * restricted to a date range on the server. Uncached — use this from route handlers.
+ */
+export async function queryTransactions(
+  uid: string,
+  kind: TransactionKind,
+  range?: DateRange
+): Promise<Transaction[]> {
+  const filters: Filter[] = [{ field: "userId", op: "==", value: uid }];
+  if (range) {
+    filters.push(
+      { field: "date", op: ">=", value: range.from },
+      { field: "date", op: "<", value: range.to }
+    );
+  }
+
+  const docs = await store.list(COLLECTIONS[kind], filters);
+
+  return docs
+    .map((doc) => fromDoc(kind, doc))
+    .filter((t): t is Transaction => t !== null && !t.deletedAt)
+    .sort((a, b) => b.date.getTime() - a.date.getTime());
+}
+
+const trashCutoff = () => new Date(Date.now() - TRASH_RETENTION_DAYS * 24 * 60 * 60 * 1000);
+
+/** Transactions deleted within the retention window, most recently deleted first. */
+export async function queryTrashedTransactions(
+  uid: string,
+  kind: TransactionKind
+): Promise<Transaction[]> {
+  const docs = await store.list(COLLECTIONS[kind], [
+    { field: "userId", op: "==", value: uid },
+    { field: "deletedAt", op: ">=", value: trashCutoff() },
+  ]);
+
+  return docs
+    .map((doc) => fromDoc(kind, doc))
+    .filter((t): t is Transaction => t !== null && !!t.deletedAt)
+    .sort((a, b) => b.deletedAt!.getTime() - a.deletedAt!.getTime());
+}
+
+// ---------- Client Cache ----------
+interface CacheEntry {
+  uid: string;
+  kind: TransactionKind;
+  range?: DateRange;
+  result: Promise<Transaction[]>;
+}
+
+const cache: CacheEntry[] = [];
+
+const covers = (outer: DateRange | undefined, inner: DateRange | undefined) =>
+  !outer || (!!inner && outer.from <= inner.from && outer.to >= inner.to);
+
+/**
+ * Cached variant of `queryTransactions` for client components. A request is
+ * served from any cached (or in-flight) query whose range covers it, so one
+ * wide query can feed several widgets.
+ */
+export function fetchTransactions(
+  uid: string,
+  kind: TransactionKind,
+  range?: DateRange
+): Promise<Transaction[]> {
+  const hit = cache.find(
+    (entry) => entry.uid === uid && entry.kind === kind && covers(entry.range, range)
+  );
+  if (hit) {
+    return range ? hit.result.then((list) => filterByRange(list, range)) : hit.result;
+  }
+
+  const result = queryTransactions(uid, kind, range);
+  const entry: CacheEntry = { uid, kind, range, result };
+  cache.push(entry);
+
+  // Failed queries must not poison the cache
+  result.catch(() => {
+    const idx = cache.indexOf(entry);
+    if (idx !== -1) cache.splice(idx, 1);
+  });
+
+  return result;
+}
+
+// ---------- Change Notifications ----------
+type ChangeListener = (uid?: string) => void;
+
+const listeners = new Set<ChangeListener>();
+
+/** Subscribes to repository writes; returns the unsubscribe function. */
+export function onTransactionsChanged(listener: ChangeListener): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+export function invalidateTransactions(uid?: string) {
+  for (let i = cache.length - 1; i >= 0; i--) {
+    if (!uid || cache[i].uid === uid) cache.splice(i, 1);
+  }
+  listeners.forEach((listener) => listener(uid));
+}
+
+/**
+ * Replaces (or removes, when `next` is null) a transaction in a local list,
+ * keeping newest-first order. Used for optimistic UI updates.
+ */
+export function applyTransactionChange(
+  list: Transaction[],
+  id: string,
+  next: Transaction | null
+): Transaction[] {
+  const rest = list.filter((t) => t.id !== id);
+  if (!next) return rest;
+  return [...rest, next].sort((a, b) => b.date.getTime() - a.date.getTime());
+}
+
+// ---------- Validation ----------
+
+/**
+ * Guards every write path so stored documents always follow the canonical
+ * schema: positive numeric `amount`, non-empty category, `date` as a real
+ * Date (stored as a Firestore Timestamp) plus its `month` bucket key.
+ */
+export function validateTransaction(input: NewTransaction): NewTransaction {
+  if (typeof input.amount !== "number" || !isFinite(input.amount) || input.amount <= 0) {
+    throw new Error(`Invalid transaction amount: ${input.amount}`);
+  }
+  if (!input.category?.trim()) {
+    throw new Error("Transaction category is required");
+  }
+  if (!(input.date instanceof Date) || isNaN(input.date.getTime())) {
+    throw new Error(`Invalid transaction date: ${String(input.date)}`);
+  }
+
+  return {
+    ...input,
+    category: input.category.trim(),
+    title: input.title?.trim() || undefined,
+    merchant: input.merchant?.trim() || undefined,
+    account: input.account?.trim() || undefined,
+    tags: input.tags?.length ? [...new Set(input.tags.map((t) => t.trim()).filter(Boolean))] : undefined,
+    lineItems: input.lineItems?.length ? input.lineItems : undefined,
+    splits: validateSplits(input.amount, input.splits),
+  };
+}
+
+// A split needs two or more parts, each with a category and a positive amount,
+// adding up to the transaction amount to the paisa
+function validateSplits(amount: number, splits: TransactionSplit[] | undefined): TransactionSplit[] | undefined {
+  if (!splits?.length) return undefined;
+  if (splits.length < 2) throw new Error("A split needs at least two parts");
+
+  const parts = splits.map((split) => {
+    if (typeof split.amount !== "number" || !isFinite(split.amount) || split.amount <= 0) {
+      throw new Error(`Invalid split amount: ${split.amount}`);
+    }
+    if (!split.category?.trim()) throw new Error("Every split part needs a category");
+    return { category: split.category.trim(), amount: split.amount };
+  });
+
+  if (Math.round(sumAmounts(parts) * 100) !== Math.round(amount * 100)) {
+    throw new Error(`Split parts add up to ${sumAmounts(parts).toFixed(2)}, not ${amount.toFixed(2)}`);
+  }
+  return parts;
+}
+
+// ---------- Writes ----------
+function toRecord(kind: TransactionKind, valid: NewTransaction) {
+  return {
+    amount: valid.amount,
+    [kind === "income" ? "source" : "category"]: valid.category,
+    title: valid.title,
+    merchant: valid.merchant,
+    account: valid.account,
+    fingerprint: valid.fingerprint,
+    importBatchId: valid.importBatchId,
+    tags: valid.tags,
+    lineItems: valid.lineItems,
+    splits: valid.splits,
+    date: valid.date,
+    month: toMonthKey(valid.date),
+  };
+}
+
+// The audit-trail entry for a write made by `uid`
+function changeEntry(
+  uid: string,
+  kind: TransactionKind,
+  transactionId: string,
+  action: ChangeAction,
+  context: ChangeContext,
+  changes: FieldChange[] = []
+) {
+  return {
+    transactionId,
+    kind,
+    userId: uid,
+    actorId: uid,
+    actorName: context.actorName,
+    action,
+    source: context.source ?? "manual",
+    changes,
+  };
+}
+
+const logChange = (...args: Parameters<typeof changeEntry>) =>
+  recordTransactionChange(changeEntry(...args));
+
+export async function addTransaction(
+  uid: string,
+  kind: TransactionKind,
+  input: NewTransaction,
+  context: ChangeContext = {}
+): Promise<string> {
+  const valid = validateTransaction(input);
+  const id = await store.add(COLLECTIONS[kind], {
+    ...toRecord(kind, valid),
+    userId: uid,
+  });
+
+  await logChange(uid, kind, id, "create", context, diffTransaction(null, valid));
+  invalidateTransactions(uid);
+  return id;
+}
+
+/**
+ * Creates many transactions, with their history entries and any `extraWrites`,
+ * in one atomic write. Keep calls under ~200 transactions (Firestore's
+ * 500-write batch limit). Resolves with the new ids in input order.
+ */
+export async function addTransactions(
+  uid: string,
+  entries: { kind: TransactionKind; input: NewTransaction }[],
+  context: ChangeContext = {},
+  extraWrites: BatchWrite[] = []
+): Promise<string[]> {
+  const writes: BatchWrite[] = [];
+  const ids: string[] = [];
+
+  for (const { kind, input } of entries) {
+    const valid = validateTransaction(input);
+    const id = uuidv4();
+    ids.push(id);
+    writes.push(
+      { op: "create", collection: COLLECTIONS[kind], id, data: { ...toRecord(kind, valid), userId: uid } },
+      transactionChangeWrite(changeEntry(uid, kind, id, "create", context, diffTransaction(null, valid)))
+    );
+  }
+
+  await store.batch([...writes, ...extraWrites]);
+  invalidateTransactions(uid);
+  return ids;
+}
+
+export async function updateTransaction(
+  uid: string,
+  kind: TransactionKind,
+  id: string,
+  input: NewTransaction,
+  context: ChangeContext = {}
+): Promise<void> {
+  const valid = validateTransaction(input);
+  const existing = await store.get(COLLECTIONS[kind], id);
+  const before = existing ? fromDoc(kind, existing) : null;
+
+  // `null` / `[]` clear optional fields that were removed while editing
+  await store.update(COLLECTIONS[kind], id, {
+    ...toRecord(kind, valid),
+    title: valid.title ?? null,
+    merchant: valid.merchant ?? null,
+    account: valid.account ?? null,
+    fingerprint: valid.fingerprint ?? null,
+    importBatchId: valid.importBatchId ?? null,
+    tags: valid.tags ?? [],
+    lineItems: valid.lineItems ?? [],
+    splits: valid.splits ?? [],
+    updatedAt: new Date(),
+  });
+
+  await logChange(uid, kind, id, "update", context, diffTransaction(before, valid));
+  invalidateTransactions(uid);
+}
+
+/** Soft delete: moves the transaction to the trash. */
+export async function deleteTransaction(
+  uid: string,
+  kind: TransactionKind,
+  id: string,
+  context: ChangeContext = {}
+): Promise<void> {
+  await store.update(COLLECTIONS[kind], id, { deletedAt: new Date() });
+  await logChange(uid, kind, id, "delete", context);
+  invalidateTransactions(uid);
+}
+
+export async function restoreTransaction(
+  uid: string,
+  kind: TransactionKind,
+  id: string,
+  context: ChangeContext = {}
+): Promise<void> {
+  await store.update(COLLECTIONS[kind], id, { deletedAt: null });
+  await logChange(uid, kind, id, "restore", context);
+  invalidateTransactions(uid);
+}
+
+/** Permanently removes a transaction. Its history entries are kept. */
+export async function purgeTransaction(
+  uid: string,
+  kind: TransactionKind,
+  id: string
+): Promise<void> {
+  await store.remove(COLLECTIONS[kind], id);
+  invalidateTransactions(uid);
+}
+
+/** Permanently removes trashed transactions older than the retention window. */
+export async function purgeExpiredTransactions(uid: string): Promise<number> {
+  let purged = 0;
+
+  for (const kind of Object.keys(COLLECTIONS) as TransactionKind[]) {
+    const expired = await store.list(COLLECTIONS[kind], [
+      { field: "userId", op: "==", value: uid },
+      { field: "deletedAt", op: "<", value: trashCutoff() },
+    ]);
+    for (const { id } of expired) {
+      await store.remove(COLLECTIONS[kind], id);
+      purged++;
+    }
+  }
+
+  if (purged > 0) invalidateTransactions(uid);
+  return purged;
+}
+
+/**
+ * Rewrites the category (or income source) name on every transaction of one
+ * kind, e.g. after a category rename or merge. Each transaction is written
+ * together with its history entry in atomic chunks; a run that fails halfway
+ * can be repeated, since renamed transactions no longer match `from`.
+ * Resolves with the count changed.
+ */
+export async function renameTransactionCategory(
+  uid: string,
+  kind: TransactionKind,
+  from: string,
+  to: string,
+  context: ChangeContext = {}
+): Promise<number> {
+  const field = kind === "income" ? "source" : "category";
+  const docs = await store.list(COLLECTIONS[kind], [{ field: "userId", op: "==", value: uid }]);
+  const writes: BatchWrite[] = [];
+  let renamed = 0;
+
+  for (const doc of docs) {
+    const current = fromDoc(kind, doc);
+    if (!current) continue;
+    const matches = (name: string | undefined) => name !== undefined && sameCategoryName(name, from);
+    const ownCategory = matches(current.category);
+    const items = current.lineItems?.some((item) => matches(item.category));
+    const splits = current.splits?.some((split) => matches(split.category));
+    if (!ownCategory && !items && !splits) continue;
+
+    const next: Transaction = {
+      ...current,
+      category: ownCategory ? to : current.category,
+      // Line items assigned to the category follow it too
+      lineItems: current.lineItems?.map((item) => (matches(item.category) ? { ...item, category: to } : item)),
+      splits: current.splits?.map((split) => (matches(split.category) ? { ...split, category: to } : split)),
+    };
+
+    writes.push(
+      {
+        op: "update",
+        collection: COLLECTIONS[kind],
+        id: doc.id,
+        patch: {
+          ...(ownCategory && { [field]: to }),
+          ...(items && { lineItems: next.lineItems }),
+          ...(splits && { splits: next.splits }),
+        },
+      },
+      transactionChangeWrite(changeEntry(uid, kind, doc.id, "update", context, diffTransaction(current, next)))
+    );
+    renamed++;
+  }
+
+  // Two writes per transaction and an even chunk size keep each pair together
+  try {
+    for (let i = 0; i < writes.length; i += MAX_BATCH_WRITES) {
+      await store.batch(writes.slice(i, i + MAX_BATCH_WRITES));
+    }
+  } finally {
+    if (renamed > 0) invalidateTransactions(uid);
+  }
+  return renamed;
+}